@@ -1,204 +1,387 @@
-import { Database } from 'bun:sqlite'
+import { openDatabase, type SQLiteDatabase } from './utils/sqlite.js'
+import { getSchemaVersion, migrate } from './utils/migrations.js'
 import { getDatabasePath } from './utils/config.js'
 import { createHash } from 'crypto'
 import packageJson from '../package.json' with { type: 'json' }
-import { readJSONL, loadJsonlFromDirectory } from './utils/jsonl.js'
-import { join, dirname } from 'path'
-import { fileURLToPath } from 'url'
+import { getJsonlCategory, readJSONLEntries, scanJsonlFiles, validateJSONL, type JSONLEntry } from './utils/jsonl.js'
+import { ExampleItemSchema, KnowledgeItemSchema } from './utils/data-validation.js'
+import { logger } from './utils/logger.js'
+import { join, relative, sep } from 'path'
+import { existsSync, readFileSync, renameSync, rmSync } from 'fs'
+import { matchTerm, type TermMatch } from './utils/fuzzy.js'
+import { expandWithSynonyms, findSynonymGroups, loadSynonyms, type SynonymFile, type SynonymGroup, type SynonymMatch, type SynonymSource } from './utils/synonyms.js'
+import { decodeCursor, paginate } from './utils/pagination.js'
+import { blobToVector, cosineSimilarity, embed, EMBEDDING_MODEL, reciprocalRankFusion, vectorToBlob } from './utils/embedding.js'
+import { verifyExample, VERIFIER_VERSION, type ExampleVerification } from './utils/example-verification.js'
+import { codeComplexity, inferDifficulty, type DifficultyLevel } from './utils/difficulty.js'
+import { splitPassages, type Passage } from './utils/passages.js'
+import { weighMentions } from './utils/mentions.js'
+import { inferApiSymbolKind, loadApiSymbols, resolveApiSymbol, suggestApiSymbols, type ApiSymbol } from './utils/api-symbols.js'
+
+/** Where an entry came from: the bundled data, the user's overlay directory or a knowledge pack */
+export type EntryOrigin = 'bundled' | 'local' | 'pack';
+
+/**
+ * A data directory with `knowledge/` and `patterns/` JSONL subfolders
+ */
+export interface DataFolder {
+  dir: string;
+  origin: EntryOrigin;
+  /** Prefix for the folder's sync keys, keeping them unique across folders */
+  keyPrefix?: string;
+  /** Name of the knowledge pack the folder belongs to */
+  pack?: string;
+  /** Subfolder names, relative to `dir`; default `knowledge` and `patterns` */
+  knowledgeDir?: string;
+  patternsDir?: string;
+  /** Extra synonym groups the folder contributes */
+  synonyms?: SynonymFile['groups'];
+}
+
+interface SourceInfo {
+  origin?: EntryOrigin;
+  pack?: string;
+  category?: string;
+  source_file?: string;
+  source_line?: number;
+}
 
-interface KnowledgeItem {
+interface KnowledgeItem extends SourceInfo {
   id?: number;
   question: string;
   answer: string;
+  level?: DifficultyLevel;
+  /** Instructions of examples to link to, besides those found by shared mentions */
+  related?: string[];
 }
 
-interface ExampleItem {
+interface ExampleItem extends SourceInfo {
   id?: number;
   instruction: string;
   input: string;
   output: string;
+  /** Questions of knowledge entries to link to, besides those found by shared mentions */
+  related?: string[];
+}
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface SearchOptions {
+  /** `keyword` (FTS5), `semantic` (embeddings) or `hybrid` (both, merged by reciprocal-rank fusion) */
+  mode?: SearchMode;
+  /** Restrict results to one or more source categories (e.g. `runes`, `effects`) */
+  category?: string | string[];
+  /** Maximum length of long text fields before truncation */
+  maxLength?: number;
+  /** Number of ranked results to skip */
+  offset?: number;
+  /** Opaque cursor from a previous page's `next_cursor`; takes precedence over `offset` */
+  cursor?: string;
+  /** Only return examples whose code passed the compile check (examples only) */
+  verifiedOnly?: boolean;
+}
+
+/** Columns of each FTS table, in index order (the order of `bm25()` weights) */
+export const FTS_COLUMNS = {
+  knowledge: ['question', 'answer'],
+  examples: ['instruction', 'input', 'output'],
+} as const;
+
+/** Column weights of `searchRanked` unless overridden: matches in titles count most */
+export const DEFAULT_COLUMN_WEIGHTS: { [T in keyof typeof FTS_COLUMNS]: Record<typeof FTS_COLUMNS[T][number], number> } = {
+  knowledge: { question: 2, answer: 1 },
+  examples: { instruction: 1.5, input: 1, output: 1 },
+};
+
+export interface RankedSearchOptions extends Pick<SearchOptions, 'category' | 'maxLength' | 'offset' | 'cursor'> {
+  /** BM25 weight per column; columns left out keep their default weight */
+  weights?: Record<string, number>;
+  /** Add a per-term breakdown of each result's score */
+  explain?: boolean;
+}
+
+export interface ListOptions {
+  category?: string;
+  offset?: number;
+  limit?: number;
+}
+
+interface RankedEntry {
+  id: number;
+  score: number;
+  matched_by: ('keyword' | 'semantic')[];
+}
+
+interface TableSync<T> {
+  table: 'knowledge' | 'examples';
+  keyColumn: 'question' | 'instruction';
+  keyOf: (item: T) => string;
+  hashOf: (item: T) => string;
+  insert: (item: T, hash: string) => void;
+  update: (item: T, hash: string) => void;
+  relocate: (item: T) => void;
+}
+
+export interface EntryChanges {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+/** A line of an overlay or pack file that is not a valid entry */
+export interface RejectedEntry {
+  file: string;
+  line: number;
+  message: string;
+}
+
+export interface SyncSummary {
+  skipped: boolean;
+  files: { added: number; changed: number; removed: number; unchanged: number };
+  knowledge: EntryChanges;
+  examples: EntryChanges;
+  /** Lines left out of the sync; they stay out until their file is fixed */
+  rejected: RejectedEntry[];
+  duration_ms: number;
+}
+
+interface SyncSource {
+  path: string;
+  key: string;
+  kind: 'knowledge' | 'examples';
+  origin?: EntryOrigin;
+  pack?: string;
 }
 
 interface SynonymRow {
   term: string;
   synonyms: string;
+  source: SynonymSource | null;
+}
+
+interface SourceRow {
+  origin: EntryOrigin | null;
+  pack: string | null;
+  category: string | null;
+  source_file: string | null;
+  source_line: number | null;
 }
 
-interface KnowledgeSearchRow {
+interface KnowledgeSearchRow extends SourceRow {
   id: number;
   question: string;
   answer: string;
+  level: DifficultyLevel | null;
+  /** JSON array of the source's `related` keys; only selected by full-entry queries */
+  related_keys?: string | null;
   rank: number;
   highlighted_question: string;
   highlighted_answer: string;
 }
 
-interface ExampleSearchRow {
+interface ExampleSearchRow extends SourceRow {
   id: number;
   instruction: string;
   input: string;
   output: string;
+  content_hash: string | null;
+  related_keys?: string | null;
   rank: number;
   highlighted_instruction: string;
   highlighted_input: string;
   highlighted_output: string;
 }
 
-interface CustomScoreRow {
+interface AnswerExcerpt {
+  text: string;
+  highlighted: string;
+  /** The passage that best matched the query */
+  passage: { position: number; kind: Passage['kind']; language: string | null };
+}
+
+export interface ScoreExplanation {
+  /** Query terms found in the entry, best contribution first */
+  matched_terms: string[];
+  weights: Record<string, number>;
+  terms: {
+    term: string;
+    /** How often the phrase appears in the MATCH expression */
+    occurrences: number;
+    /** Phrase instances per column */
+    hits: Record<string, number>;
+    /** Hits summed with column weights: the term frequency BM25 sees */
+    weighted_frequency: number;
+    contribution: number;
+  }[];
+  score: number;
+}
+
+/** A knowledge entry or example linked to another entry */
+export interface RelatedEntry {
+  type: 'knowledge' | 'examples';
   id: number;
-  question?: string;
-  answer?: string;
-  instruction?: string;
-  input?: string;
-  output?: string;
-  custom_score: number;
+  /** Question or instruction */
+  title: string;
+  category: string | null;
+  /** Sum over shared mentions of their rarity, weighted up where both titles name them */
+  score: number;
+  /** `explicit` when either entry lists the other under `related` */
+  source: 'explicit' | 'mentions';
+  shared: string[];
 }
 
+/** A knowledge entry or example that mentions an API symbol */
+export interface ApiMention {
+  type: 'knowledge' | 'examples';
+  id: number;
+  /** Question or instruction */
+  title: string;
+  category: string | null;
+  /** The question or instruction names the symbol, so the entry is about it */
+  in_title: boolean;
+}
+
+// Words of context FTS5 snippet() keeps around a match in a long prose passage (64 at most)
+const SNIPPET_TOKENS = 48;
+
+// Bump when mention extraction or relation scoring changes, so links are recomputed
+const RELATIONS_VERSION = 1;
+
+// Bump when mention extraction changes, so the API symbol table is rebuilt
+const API_INDEX_VERSION = 1;
+
+// Mention links weaker than this share little more than `$state` or `$props`
+const MIN_RELATION_SCORE = 3;
+
+// Mention links kept per entry, strongest first; an entry may end up with more through the other side
+const RELATIONS_PER_ENTRY = 5;
+
+// Related entries attached to each search result
+const RELATED_PER_RESULT = 3;
+
+// Below this cosine similarity a semantic hit shares little more than stray words with the query
+const MIN_SEMANTIC_SIMILARITY = 0.1;
+
 export class Svelte5SearchDB {
-  private db: Database;
+  private db: SQLiteDatabase;
+  private synonymGroups: SynonymGroup[] | null = null;
+  private vocabularyCache = new Map<'knowledge' | 'examples', Map<string, number>>();
+  // Vectors are small enough to scan in memory; loaded on first semantic search
+  private vectorCache = new Map<'knowledge' | 'examples', { id: number; category: string | null; vector: Float32Array }[]>();
 
-  constructor(dbPath?: string) {
+  constructor(dbPath?: string, options: { readonly?: boolean } = {}) {
     // Use config-based path if no path provided, fallback to memory
     const finalDbPath = dbPath || getDatabasePath();
-    this.db = new Database(finalDbPath);
-    this.initializeDatabase();
+
+    if (options.readonly) {
+      // Read-only connections share an already populated database (e.g. across HTTP sessions)
+      this.db = openDatabase(finalDbPath, { readonly: true });
+    } else {
+      this.db = this.openMigrated(finalDbPath);
+      this.initializeDatabase();
+    }
 
     // Log database location for debugging
     if (finalDbPath !== ':memory:') {
-      console.log(`Svelte5 MCP: Database initialized at ${finalDbPath}`);
+      logger.info(`Svelte5 MCP: Database ${options.readonly ? 'opened read-only' : 'initialized'} at ${finalDbPath}`);
+    }
+  }
+
+  /**
+   * Open the database and apply pending migrations. A corrupt file or a failed
+   * migration is moved aside to `<path>.broken` and the database is recreated
+   * empty; the next sync rebuilds it, since every entry lives in a JSONL file.
+   */
+  private openMigrated(path: string): SQLiteDatabase {
+    try {
+      return this.openAndMigrate(path);
+    } catch (error) {
+      if (path === ':memory:' || !existsSync(path)) throw error;
+      logger.error(`Svelte5 MCP: Database at ${path} is unusable, rebuilding it from the JSONL sources`, error);
+      renameSync(path, `${path}.broken`);
+      for (const suffix of ['-wal', '-shm', '-journal']) rmSync(path + suffix, { force: true });
+      return this.openAndMigrate(path);
+    }
+  }
+
+  private openAndMigrate(path: string): SQLiteDatabase {
+    const db = openDatabase(path);
+    try {
+      const [check] = db.query('PRAGMA quick_check').all() as { quick_check: string }[];
+      if (check?.quick_check !== 'ok') throw new Error(`Integrity check failed: ${check?.quick_check}`);
+
+      const applied = migrate(db);
+      if (applied.length > 0) {
+        logger.info(`Svelte5 MCP: Migrated database schema to version ${applied[applied.length - 1]}`);
+      }
+      return db;
+    } catch (error) {
+      db.close();
+      throw error;
     }
   }
 
   private initializeDatabase() {
-    // Create tables with FTS5 for advanced text search
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS knowledge (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        question TEXT NOT NULL UNIQUE,
-        answer TEXT NOT NULL,
-        content_hash TEXT,
-        version INTEGER DEFAULT 1,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      CREATE TABLE IF NOT EXISTS examples (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        instruction TEXT NOT NULL UNIQUE,
-        input TEXT NOT NULL,
-        output TEXT NOT NULL,
-        content_hash TEXT,
-        version INTEGER DEFAULT 1,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      CREATE TABLE IF NOT EXISTS metadata (
-        key TEXT PRIMARY KEY,
-        value TEXT,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- FTS5 virtual tables for full-text search
-      CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_fts USING fts5(
-        question, answer,
-        content='knowledge',
-        content_rowid='id',
-        tokenize="unicode61 separators ' !""#$%&''()*+,-./:;<=>?@[\]^_\`{|}~'"
-      );
-
-      CREATE VIRTUAL TABLE IF NOT EXISTS examples_fts USING fts5(
-        instruction, input, output,
-        content='examples',
-        content_rowid='id',
-        tokenize="unicode61 separators ' !""#$%&''()*+,-./:;<=>?@[\]^_\`{|}~'"
-      );
-
-      -- Create synonyms table for Svelte 5 specific terms
-      CREATE TABLE IF NOT EXISTS synonyms (
-        term TEXT PRIMARY KEY,
-        synonyms TEXT NOT NULL -- JSON array of synonyms
-      );
-
-      -- Triggers to keep FTS in sync
-      CREATE TRIGGER IF NOT EXISTS knowledge_ai AFTER INSERT ON knowledge BEGIN
-        INSERT INTO knowledge_fts(rowid, question, answer)
-        VALUES (new.id, new.question, new.answer);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS knowledge_ad AFTER DELETE ON knowledge BEGIN
-        INSERT INTO knowledge_fts(knowledge_fts, rowid, question, answer)
-        VALUES('delete', old.id, old.question, old.answer);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS knowledge_au AFTER UPDATE ON knowledge BEGIN
-        INSERT INTO knowledge_fts(knowledge_fts, rowid, question, answer)
-        VALUES('delete', old.id, old.question, old.answer);
-        INSERT INTO knowledge_fts(rowid, question, answer)
-        VALUES (new.id, new.question, new.answer);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS examples_ai AFTER INSERT ON examples BEGIN
-        INSERT INTO examples_fts(rowid, instruction, input, output)
-        VALUES (new.id, new.instruction, new.input, new.output);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS examples_ad AFTER DELETE ON examples BEGIN
-        INSERT INTO examples_fts(examples_fts, rowid, instruction, input, output)
-        VALUES('delete', old.id, old.instruction, old.input, old.output);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS examples_au AFTER UPDATE ON examples BEGIN
-        INSERT INTO examples_fts(examples_fts, rowid, instruction, input, output)
-        VALUES('delete', old.id, old.instruction, old.input, old.output);
-        INSERT INTO examples_fts(rowid, instruction, input, output)
-        VALUES (new.id, new.instruction, new.input, new.output);
-      END;
-    `);
+    // Populating syncs synonyms together with the packs that contribute to them
+    if (this.countRows('synonyms') === 0) this.syncSynonyms();
+  }
 
-    this.setupSynonyms();
-  }
-
-  private setupSynonyms() {
-    const sveltesynonyms = [
-      { term: '$state', synonyms: ['state', 'reactive state', 'reactivity', 'reactive variable'] },
-      { term: '$derived', synonyms: ['derived', 'computed', 'derived state', 'computed value'] },
-      { term: '$effect', synonyms: ['effect', 'side effect', 'side-effect', 'lifecycle', 'cleanup'] },
-      { term: '$props', synonyms: ['props', 'properties', 'component props', 'export let'] },
-      { term: 'snippets', synonyms: ['snippet', 'slot', 'content projection', 'render', '@render'] },
-      { term: 'runes', synonyms: ['rune', '$state', '$derived', '$effect', '$props', 'svelte 5'] },
-      { term: 'migrate', synonyms: ['migration', 'upgrade', 'convert', 'transition', 'svelte 4 to 5'] },
-      { term: 'onclick', synonyms: ['on:click', 'event handler', 'event attribute', 'click handler'] },
-      { term: 'bind:', synonyms: ['binding', 'two-way binding', 'bind directive'] },
-      { term: 'use:', synonyms: ['action', 'use directive', 'action function'] }
-    ];
+  /**
+   * Load the synonym dictionary into the database when the bundled file, pack groups or user file changed
+   */
+  private syncSynonyms(force: boolean = false, packGroups: SynonymFile['groups'] = []) {
+    let loaded: ReturnType<typeof loadSynonyms>;
+    try {
+      loaded = loadSynonyms(packGroups);
+    } catch (error) {
+      logger.warning('Svelte5 MCP: Could not load synonyms, keeping the previous set', error);
+      return;
+    }
+    if (loaded.userError) {
+      logger.warning(`Svelte5 MCP: Ignoring user synonyms: ${loaded.userError}`);
+    }
+
+    const hash = this.generateContentHash(loaded.contents);
+    if (!force && this.getMetadata('synonyms_hash') === hash && this.countRows('synonyms') > 0) return;
 
     const insertSynonym = this.db.query(`
-      INSERT OR REPLACE INTO synonyms (term, synonyms) VALUES (?, ?)
+      INSERT OR REPLACE INTO synonyms (term, synonyms, source) VALUES (?, ?, ?)
     `);
 
-    for (const { term, synonyms } of sveltesynonyms) {
-      insertSynonym.run(term, JSON.stringify(synonyms));
-    }
+    this.db.transaction(() => {
+      this.db.run('DELETE FROM synonyms');
+      for (const { term, synonyms, source } of loaded.groups) {
+        insertSynonym.run(term, JSON.stringify(synonyms), source);
+      }
+    })();
+
+    this.setMetadata('synonyms_hash', hash);
+    this.synonymGroups = null;
+    logger.debug(`Loaded ${loaded.groups.length} synonym groups`);
   }
 
-  private generateContentHash(content: string): string {
-    return createHash('md5').update(content).digest('hex');
+  private getSynonymGroups(): SynonymGroup[] {
+    if (!this.synonymGroups) {
+      this.synonymGroups = (this.db.query('SELECT term, synonyms, source FROM synonyms ORDER BY term').all() as SynonymRow[])
+        .map(row => ({ term: row.term, synonyms: JSON.parse(row.synonyms), source: row.source ?? 'bundled' }));
+    }
+    return this.synonymGroups;
   }
 
-  private isDatabaseInitialized(): boolean {
-    try {
-      const result = this.db.query(`
-        SELECT COUNT(*) as count
-        FROM sqlite_master
-        WHERE type='table' AND name IN ('knowledge', 'examples', 'metadata')
-      `).get() as { count: number };
 
-      // Check if all required tables exist
-      return result.count >= 3;
-    } catch {
-      return false;
-    }
+  /**
+   * Get the synonyms registered for a term (e.g. the `migrate` group)
+   */
+  getSynonyms(term: string): string[] {
+    const row = this.db.query(`
+      SELECT term, synonyms FROM synonyms WHERE term = ?
+    `).get(term) as SynonymRow | null;
+    return row ? JSON.parse(row.synonyms) : [];
+  }
+
+  private generateContentHash(content: string): string {
+    return createHash('md5').update(content).digest('hex');
   }
 
   private setMetadata(key: string, value: string) {
@@ -223,147 +406,535 @@ export class Svelte5SearchDB {
     }
   }
 
-  populateData(knowledge: KnowledgeItem[], examples: ExampleItem[]) {
-    // Check if this is first initialization or update
-    const isFirstRun = !this.isDatabaseInitialized() ||
-                       (this.db.query("SELECT COUNT(*) as count FROM knowledge").get() as { count: number }).count === 0;
+  /**
+   * Diff entries against the database by content hash: insert new entries,
+   * update changed ones and delete the ones that disappeared from the source
+   */
+  populateData(knowledge: KnowledgeItem[], examples: ExampleItem[]): { knowledge: EntryChanges; examples: EntryChanges } {
+    const insertKnowledge = this.db.query(`
+      INSERT INTO knowledge (question, answer, level, related_keys, origin, pack, category, source_file, source_line, content_hash, version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+    `);
+    const updateKnowledge = this.db.query(`
+      UPDATE knowledge
+      SET answer = ?, level = ?, related_keys = ?, origin = ?, pack = ?, category = ?, source_file = ?, source_line = ?, content_hash = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE question = ?
+    `);
+    const relocateKnowledge = this.db.query(`
+      UPDATE knowledge SET origin = ?, pack = ?, source_file = ?, source_line = ? WHERE question = ?
+    `);
 
-    if (isFirstRun) {
-      console.log('Svelte5 MCP: First run - initializing database with knowledge base');
-    } else {
-      // Check version
-      const currentDbVersion = this.getMetadata('db_version');
-      console.log(`Svelte5 MCP: Database exists (v${currentDbVersion}) - checking for updates to v${packageJson.version}`);
+    // Untagged entries (older overlays and packs) get a level inferred from their text
+    const levelOf = (item: KnowledgeItem) => item.level ?? inferDifficulty(item.question, item.answer);
+    const relatedKeysOf = (item: KnowledgeItem | ExampleItem) => item.related?.length ? JSON.stringify(item.related) : null;
+
+    const knowledgeChanges = this.syncTable<KnowledgeItem>(knowledge, {
+      table: 'knowledge',
+      keyColumn: 'question',
+      keyOf: item => item.question,
+      hashOf: item => this.generateContentHash(item.question + item.answer + (item.category ?? '') + (item.level ?? '') + (relatedKeysOf(item) ?? '')),
+      insert: (item, hash) => insertKnowledge.run(item.question, item.answer, levelOf(item), relatedKeysOf(item), item.origin ?? 'bundled', item.pack ?? null, item.category ?? null, item.source_file ?? null, item.source_line ?? null, hash),
+      update: (item, hash) => updateKnowledge.run(item.answer, levelOf(item), relatedKeysOf(item), item.origin ?? 'bundled', item.pack ?? null, item.category ?? null, item.source_file ?? null, item.source_line ?? null, hash, item.question),
+      relocate: item => relocateKnowledge.run(item.origin ?? 'bundled', item.pack ?? null, item.source_file ?? null, item.source_line ?? null, item.question),
+    });
+
+    const insertExample = this.db.query(`
+      INSERT INTO examples (instruction, input, output, related_keys, origin, pack, category, source_file, source_line, content_hash, version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+    `);
+    const updateExample = this.db.query(`
+      UPDATE examples
+      SET input = ?, output = ?, related_keys = ?, origin = ?, pack = ?, category = ?, source_file = ?, source_line = ?, content_hash = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE instruction = ?
+    `);
+    const relocateExample = this.db.query(`
+      UPDATE examples SET origin = ?, pack = ?, source_file = ?, source_line = ? WHERE instruction = ?
+    `);
+
+    const exampleChanges = this.syncTable<ExampleItem>(examples, {
+      table: 'examples',
+      keyColumn: 'instruction',
+      keyOf: item => item.instruction,
+      hashOf: item => this.generateContentHash(item.instruction + item.input + item.output + (item.category ?? '') + (relatedKeysOf(item) ?? '')),
+      insert: (item, hash) => insertExample.run(item.instruction, item.input, item.output, relatedKeysOf(item), item.origin ?? 'bundled', item.pack ?? null, item.category ?? null, item.source_file ?? null, item.source_line ?? null, hash),
+      update: (item, hash) => updateExample.run(item.input, item.output, relatedKeysOf(item), item.origin ?? 'bundled', item.pack ?? null, item.category ?? null, item.source_file ?? null, item.source_line ?? null, hash, item.instruction),
+      relocate: item => relocateExample.run(item.origin ?? 'bundled', item.pack ?? null, item.source_file ?? null, item.source_line ?? null, item.instruction),
+    });
+
+    this.setMetadata('last_sync', new Date().toISOString());
+    this.setMetadata('db_version', packageJson.version);
+    this.setMetadata('package_name', packageJson.name);
+    this.setMetadata('knowledge_count', this.countRows('knowledge').toString());
+    this.setMetadata('examples_count', this.countRows('examples').toString());
+
+    this.syncVectors();
+    this.syncExampleChecks();
+    this.syncPassages();
+    this.syncRelations();
+    this.syncApiSymbols();
+    this.vocabularyCache.clear();
+
+    return { knowledge: knowledgeChanges, examples: exampleChanges };
+  }
+
+  private syncTable<T extends SourceInfo>(items: T[], sync: TableSync<T>): EntryChanges {
+    const existing = new Map(
+      (this.db.query(`
+        SELECT ${sync.keyColumn} as key, content_hash, origin, pack, source_file, source_line FROM ${sync.table}
+      `).all() as { key: string; content_hash: string | null; origin: string; pack: string | null; source_file: string | null; source_line: number | null }[])
+        .map(row => [row.key, row])
+    );
+    const changes: EntryChanges = { inserted: 0, updated: 0, deleted: 0, unchanged: 0 };
+    const deleteRow = this.db.query(`DELETE FROM ${sync.table} WHERE ${sync.keyColumn} = ?`);
+
+    // Later duplicates win, matching the previous upsert behaviour
+    const latest = new Map<string, T>();
+    for (const item of items) {
+      latest.set(sync.keyOf(item), item);
+    }
+
+    this.db.transaction(() => {
+      for (const [key, item] of latest) {
+        const hash = sync.hashOf(item);
+        const row = existing.get(key);
+        if (!row) {
+          sync.insert(item, hash);
+          changes.inserted++;
+        } else if (row.content_hash !== hash) {
+          sync.update(item, hash);
+          changes.updated++;
+        } else {
+          // Same content, but lines above it may have moved or it moved to another folder
+          if (
+            row.origin !== (item.origin ?? 'bundled') ||
+            row.pack !== (item.pack ?? null) ||
+            row.source_file !== (item.source_file ?? null) ||
+            row.source_line !== (item.source_line ?? null)
+          ) {
+            sync.relocate(item);
+          }
+          changes.unchanged++;
+        }
+      }
+
+      for (const key of existing.keys()) {
+        if (!latest.has(key)) {
+          deleteRow.run(key);
+          changes.deleted++;
+        }
+      }
+    })();
+
+    return changes;
+  }
+
+  /**
+   * Embed entries that are new, changed or were embedded by an older model, and drop vectors of deleted entries
+   */
+  private syncVectors() {
+    const sources = {
+      knowledge: "question || ' ' || answer",
+      examples: "instruction || ' ' || input || ' ' || output",
+    };
+
+    for (const [table, text] of Object.entries(sources) as ['knowledge' | 'examples', string][]) {
+      const stale = this.db.query(`
+        SELECT t.id, t.content_hash, ${text} as text
+        FROM ${table} t
+        LEFT JOIN ${table}_vectors v ON v.id = t.id
+        WHERE v.id IS NULL OR v.model != ? OR v.content_hash IS NOT t.content_hash
+      `).all(EMBEDDING_MODEL) as { id: number; content_hash: string | null; text: string }[];
+
+      const upsert = this.db.query(`
+        INSERT OR REPLACE INTO ${table}_vectors (id, model, content_hash, vector) VALUES (?, ?, ?, ?)
+      `);
+
+      this.db.transaction(() => {
+        this.db.run(`DELETE FROM ${table}_vectors WHERE id NOT IN (SELECT id FROM ${table})`);
+        for (const row of stale) {
+          upsert.run(row.id, EMBEDDING_MODEL, row.content_hash, vectorToBlob(embed(row.text)));
+        }
+      })();
 
-      if (currentDbVersion === packageJson.version) {
-        console.log('Svelte5 MCP: Database is up to date, skipping population');
-        return; // Skip if same version
+      if (stale.length > 0) {
+        logger.debug(`Embedded ${stale.length} ${table} entries`);
       }
+      this.vectorCache.delete(table);
     }
+  }
 
-    // Prepare UPSERT queries
-    const upsertKnowledge = this.db.query(`
-      INSERT INTO knowledge (question, answer, content_hash, version)
-      VALUES (?, ?, ?, ?)
-      ON CONFLICT(question) DO UPDATE SET
-        answer = excluded.answer,
-        content_hash = excluded.content_hash,
-        version = excluded.version,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE content_hash != excluded.content_hash OR content_hash IS NULL
+  /**
+   * Compile-check examples that are new, changed or were checked by another compiler version, and drop checks of deleted examples
+   */
+  private syncExampleChecks() {
+    const stale = this.db.query(`
+      SELECT e.id, e.content_hash, e.output
+      FROM examples e
+      LEFT JOIN example_checks c ON c.id = e.id
+      WHERE c.id IS NULL OR c.verifier != ? OR c.content_hash IS NOT e.content_hash
+    `).all(VERIFIER_VERSION) as { id: number; content_hash: string | null; output: string }[];
+
+    const upsert = this.db.query(`
+      INSERT OR REPLACE INTO example_checks (id, verifier, content_hash, kind, status, errors, warnings, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
-    const upsertExample = this.db.query(`
-      INSERT INTO examples (instruction, input, output, content_hash, version)
-      VALUES (?, ?, ?, ?, ?)
-      ON CONFLICT(instruction) DO UPDATE SET
-        input = excluded.input,
-        output = excluded.output,
-        content_hash = excluded.content_hash,
-        version = excluded.version,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE content_hash != excluded.content_hash OR content_hash IS NULL
+    const results = stale.map(row => ({ row, result: verifyExample(row.output) }));
+    this.db.transaction(() => {
+      this.db.run('DELETE FROM example_checks WHERE id NOT IN (SELECT id FROM examples)');
+      for (const { row, result } of results) {
+        upsert.run(row.id, VERIFIER_VERSION, row.content_hash, result.kind, result.status, JSON.stringify(result.errors), JSON.stringify(result.warnings));
+      }
+    })();
+
+    if (stale.length > 0) {
+      const failed = results.filter(({ result }) => result.status === 'failed').length;
+      logger.debug(`Compile-checked ${stale.length} examples (${failed} failed)`);
+    }
+  }
+
+  /**
+   * Split new and changed knowledge answers into passages, and drop passages of deleted entries
+   */
+  private syncPassages() {
+    const stale = this.db.query(`
+      SELECT k.id, k.content_hash, k.answer
+      FROM knowledge k
+      LEFT JOIN knowledge_passages p ON p.knowledge_id = k.id AND p.position = 0
+      WHERE p.id IS NULL OR p.content_hash IS NOT k.content_hash
+    `).all() as { id: number; content_hash: string | null; answer: string }[];
+
+    const deletePassages = this.db.query('DELETE FROM knowledge_passages WHERE knowledge_id = ?');
+    const insertPassage = this.db.query(`
+      INSERT INTO knowledge_passages (knowledge_id, position, kind, language, content, content_hash)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
 
-    // Use transaction for better performance
     this.db.transaction(() => {
-      let knowledgeUpdated = 0;
-      let knowledgeInserted = 0;
-
-      for (const item of knowledge) {
-        const contentHash = this.generateContentHash(item.question + item.answer);
-        const changes = upsertKnowledge.run(
-          item.question,
-          item.answer,
-          contentHash,
-          1  // version
-        );
-
-        // Check if it was an update or insert
-        if (changes.changes > 0) {
-          if (changes.lastInsertRowid) {
-            knowledgeInserted++;
-          } else {
-            knowledgeUpdated++;
-          }
-        }
+      this.db.run('DELETE FROM knowledge_passages WHERE knowledge_id NOT IN (SELECT id FROM knowledge)');
+      for (const row of stale) {
+        deletePassages.run(row.id);
+        splitPassages(row.answer).forEach((passage, position) => {
+          insertPassage.run(row.id, position, passage.kind, passage.language, passage.text, row.content_hash);
+        });
       }
+    })();
 
-      let examplesUpdated = 0;
-      let examplesInserted = 0;
-
-      for (const item of examples) {
-        const contentHash = this.generateContentHash(item.instruction + item.input + item.output);
-        const changes = upsertExample.run(
-          item.instruction,
-          item.input,
-          item.output,
-          contentHash,
-          1  // version
-        );
-
-        if (changes.changes > 0) {
-          if (changes.lastInsertRowid) {
-            examplesInserted++;
-          } else {
-            examplesUpdated++;
-          }
-        }
+    if (stale.length > 0) {
+      logger.debug(`Split ${stale.length} knowledge answers into passages`);
+    }
+  }
+
+  /**
+   * Link knowledge entries and examples that mention the same runes, template
+   * tags, directives and APIs (see utils/mentions.ts), plus the pairs entries
+   * list under `related`. A shared mention counts more the fewer entries have
+   * it, so two entries about `$derived.by` are linked while `$state`, which
+   * most entries use, barely counts. Any entry change shifts those weights, so
+   * every link is recomputed whenever an entry changed.
+   */
+  private syncRelations() {
+    const hash = this.generateContentHash(`${RELATIONS_VERSION}|${this.entriesFingerprint()}`);
+    if (this.getMetadata('relations_hash') === hash) return;
+
+    const knowledge = (this.db.query('SELECT id, question, answer, related_keys FROM knowledge').all() as { id: number; question: string; answer: string; related_keys: string | null }[])
+      .map(row => ({ id: row.id, key: row.question, mentions: weighMentions(row.question, row.answer), related: JSON.parse(row.related_keys ?? '[]') as string[] }));
+    const examples = (this.db.query('SELECT id, instruction, input, output, related_keys FROM examples').all() as { id: number; instruction: string; input: string; output: string; related_keys: string | null }[])
+      .map(row => ({ id: row.id, key: row.instruction, mentions: weighMentions(row.instruction, `${row.input}\n${row.output}`), related: JSON.parse(row.related_keys ?? '[]') as string[] }));
+
+    // Inverse document frequency of each mention across both tables
+    const entryCount = knowledge.length + examples.length;
+    const documentFrequency = new Map<string, number>();
+    for (const { mentions } of [...knowledge, ...examples]) {
+      for (const mention of mentions.keys()) documentFrequency.set(mention, (documentFrequency.get(mention) ?? 0) + 1);
+    }
+    const rarity = (mention: string) => Math.log(1 + entryCount / documentFrequency.get(mention)!);
+
+    type Link = { knowledgeId: number; exampleId: number; score: number; source: RelatedEntry['source']; shared: string[] };
+    const compare = (knowledgeIndex: number, exampleIndex: number): Link => {
+      const k = knowledge[knowledgeIndex];
+      const e = examples[exampleIndex];
+      const shared: { mention: string; weight: number }[] = [];
+      for (const [mention, weight] of k.mentions) {
+        const exampleWeight = e.mentions.get(mention);
+        if (exampleWeight) shared.push({ mention, weight: rarity(mention) * weight * exampleWeight });
       }
+      shared.sort((a, b) => b.weight - a.weight);
+      const score = Math.round(shared.reduce((sum, { weight }) => sum + weight, 0) * 100) / 100;
+      return { knowledgeId: k.id, exampleId: e.id, score, source: 'mentions', shared: shared.map(({ mention }) => mention) };
+    };
 
-      // Update metadata
-      this.setMetadata('last_sync', new Date().toISOString());
-      this.setMetadata('db_version', packageJson.version);
-      this.setMetadata('package_name', packageJson.name);
-      this.setMetadata('knowledge_count', knowledge.length.toString());
-      this.setMetadata('examples_count', examples.length.toString());
+    const candidates: Link[] = [];
+    for (let i = 0; i < knowledge.length; i++) {
+      for (let j = 0; j < examples.length; j++) {
+        const link = compare(i, j);
+        if (link.score >= MIN_RELATION_SCORE) candidates.push(link);
+      }
+    }
 
-      if (knowledgeInserted > 0 || examplesInserted > 0) {
-        console.log(`Svelte5 MCP: Added ${knowledgeInserted} knowledge items, ${examplesInserted} examples`);
+    // Keep each entry's strongest links, from either side
+    const strongest = (idOf: (link: Link) => number) => {
+      const byEntry = new Map<number, Link[]>();
+      for (const link of candidates) {
+        const entryLinks = byEntry.get(idOf(link));
+        if (entryLinks) entryLinks.push(link);
+        else byEntry.set(idOf(link), [link]);
       }
-      if (knowledgeUpdated > 0 || examplesUpdated > 0) {
-        console.log(`Svelte5 MCP: Updated ${knowledgeUpdated} knowledge items, ${examplesUpdated} examples`);
+      return [...byEntry.values()].flatMap(links => links.sort((a, b) => b.score - a.score).slice(0, RELATIONS_PER_ENTRY));
+    };
+    const links = new Map<string, Link>();
+    for (const link of [...strongest(link => link.knowledgeId), ...strongest(link => link.exampleId)]) {
+      links.set(`${link.knowledgeId}:${link.exampleId}`, link);
+    }
+
+    // Explicit links, by question or instruction, whatever they share
+    const knowledgeIndex = new Map(knowledge.map((entry, index) => [entry.key, index]));
+    const exampleIndex = new Map(examples.map((entry, index) => [entry.key, index]));
+    const pairs: [number | undefined, number | undefined][] = [
+      ...knowledge.flatMap((entry, i) => entry.related.map(key => [i, exampleIndex.get(key)] as [number, number | undefined])),
+      ...examples.flatMap((entry, j) => entry.related.map(key => [knowledgeIndex.get(key), j] as [number | undefined, number])),
+    ];
+    let unresolved = 0;
+    for (const [i, j] of pairs) {
+      if (i === undefined || j === undefined) {
+        unresolved++;
+        continue;
+      }
+      const link = compare(i, j);
+      links.set(`${link.knowledgeId}:${link.exampleId}`, { ...link, source: 'explicit' });
+    }
+
+    const insertLink = this.db.query(`
+      INSERT INTO knowledge_examples (knowledge_id, example_id, score, source, shared) VALUES (?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.run('DELETE FROM knowledge_examples');
+      for (const link of links.values()) {
+        insertLink.run(link.knowledgeId, link.exampleId, link.score, link.source, JSON.stringify(link.shared));
       }
     })();
+
+    this.setMetadata('relations_hash', hash);
+    logger.debug(`Linked knowledge and examples: ${links.size} links${unresolved > 0 ? `, ${unresolved} related keys matched no entry` : ''}`);
   }
 
   /**
-   * Load data from JSONL folders (new modular approach)
+   * Index which entries mention each rune, API, template tag, special element
+   * and directive, next to the bundled catalog of signatures, summaries and
+   * Svelte 4 equivalents (see utils/api-symbols.ts). Symbols entries mention
+   * but the catalog lacks are indexed too, without a signature.
    */
-  populateFromFolders(dataDir: string, forceResync: boolean = false) {
-    try {
-      // Check if we need to resync or if database is empty
-      const knowledgeCount = this.db.query('SELECT COUNT(*) as count FROM knowledge').get() as { count: number };
-      const examplesCount = this.db.query('SELECT COUNT(*) as count FROM examples').get() as { count: number };
+  private syncApiSymbols() {
+    const catalog = loadApiSymbols();
+    const hash = this.generateContentHash(`${API_INDEX_VERSION}|${catalog.contents}|${this.entriesFingerprint()}`);
+    if (this.getMetadata('api_symbols_hash') === hash) return;
+
+    const mentions: { symbol: string; type: 'knowledge' | 'examples'; id: number; inTitle: boolean }[] = [];
+    const scan = (type: 'knowledge' | 'examples', rows: { id: number; title: string; body: string }[]) => {
+      for (const row of rows) {
+        for (const [symbol, weight] of weighMentions(row.title, row.body)) {
+          mentions.push({ symbol, type, id: row.id, inTitle: weight > 1 });
+        }
+      }
+    };
+    scan('knowledge', this.db.query('SELECT id, question AS title, answer AS body FROM knowledge').all() as { id: number; title: string; body: string }[]);
+    scan('examples', this.db.query("SELECT id, instruction AS title, input || char(10) || output AS body FROM examples").all() as { id: number; title: string; body: string }[]);
+
+    type SymbolRow = Omit<ApiSymbol, 'signature' | 'summary'> & { signature: string | null; summary: string | null };
+    const symbols = new Map<string, SymbolRow>(catalog.symbols.map(symbol => [symbol.name, symbol]));
+    for (const { symbol } of mentions) {
+      if (!symbols.has(symbol)) {
+        symbols.set(symbol, { name: symbol, kind: inferApiSymbolKind(symbol), signature: null, summary: null, svelte4: [] });
+      }
+    }
 
-      if (!forceResync && knowledgeCount.count > 0 && examplesCount.count > 0) {
-        console.log(`📚 Database already populated (${knowledgeCount.count} knowledge, ${examplesCount.count} examples). Use --force to resync.`);
-        return;
+    const insertSymbol = this.db.query(`
+      INSERT INTO api_symbols (name, kind, module, signature, summary, svelte4) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertMention = this.db.query(`
+      INSERT INTO api_mentions (symbol, entry_type, entry_id, in_title) VALUES (?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.run('DELETE FROM api_symbols');
+      this.db.run('DELETE FROM api_mentions');
+      for (const symbol of symbols.values()) {
+        insertSymbol.run(symbol.name, symbol.kind, symbol.module ?? null, symbol.signature, symbol.summary, JSON.stringify(symbol.svelte4));
+      }
+      for (const mention of mentions) {
+        insertMention.run(mention.symbol, mention.type, mention.id, mention.inTitle ? 1 : 0);
       }
+    })();
+
+    this.setMetadata('api_symbols_hash', hash);
+    logger.debug(`Indexed API symbols: ${symbols.size} symbols, ${mentions.length} mentions`);
+  }
+
+  /**
+   * Ids and content hashes of every entry, which change whenever any entry does
+   */
+  private entriesFingerprint(): string {
+    const fingerprint = (table: 'knowledge' | 'examples') =>
+      (this.db.query(`SELECT id, content_hash FROM ${table} ORDER BY id`).all() as { id: number; content_hash: string | null }[])
+        .map(row => `${row.id}:${row.content_hash}`).join(',');
+    return `${fingerprint('knowledge')}|${fingerprint('examples')}`;
+  }
 
-      if (forceResync) {
-        console.log('🔄 Force resync: Clearing existing data...');
-        this.db.query('DELETE FROM knowledge').run();
-        this.db.query('DELETE FROM examples').run();
-        this.db.query('DELETE FROM synonyms').run();
-        console.log('✅ Existing data cleared');
+  private countRows(table: 'knowledge' | 'examples' | 'synonyms'): number {
+    return (this.db.query(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+  }
+
+  /**
+   * Sync a set of JSONL source files. Files whose content hash matches the last
+   * sync are not re-read unless `forceResync` is set; entries are then diffed
+   * individually so only what changed is written.
+   */
+  private syncSources(sources: SyncSource[], forceResync: boolean): SyncSummary {
+    const startedAt = Date.now();
+    const previous = new Map(
+      (this.db.query('SELECT path, content_hash FROM sync_sources').all() as { path: string; content_hash: string }[])
+        .map(row => [row.path, row.content_hash])
+    );
+
+    const files = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+    const hashes = new Map<string, string>();
+    for (const source of sources) {
+      const hash = this.generateContentHash(readFileSync(source.path, 'utf-8'));
+      hashes.set(source.key, hash);
+      if (!previous.has(source.key)) files.added++;
+      else if (previous.get(source.key) !== hash) files.changed++;
+      else files.unchanged++;
+    }
+    const currentKeys = new Set(sources.map(source => source.key));
+    files.removed = [...previous.keys()].filter(key => !currentKeys.has(key)).length;
+
+    const unchangedFiles = files.added === 0 && files.changed === 0 && files.removed === 0;
+    const emptyDatabase = this.countRows('knowledge') === 0 && this.countRows('examples') === 0;
+    const noEntryChanges: EntryChanges = { inserted: 0, updated: 0, deleted: 0, unchanged: 0 };
+
+    if (unchangedFiles && !forceResync && !emptyDatabase) {
+      // Entries are current, but vectors, checks, passages, links and the API table may predate the embedding model, compiler, catalog or schema
+      this.syncVectors();
+      this.syncExampleChecks();
+      this.syncPassages();
+      this.syncRelations();
+      this.syncApiSymbols();
+      return {
+        skipped: true,
+        files,
+        knowledge: { ...noEntryChanges, unchanged: this.countRows('knowledge') },
+        examples: { ...noEntryChanges, unchanged: this.countRows('examples') },
+        rejected: JSON.parse(this.getMetadata('rejected_entries') || '[]'),
+        duration_ms: Date.now() - startedAt,
+      };
+    }
+
+    const knowledge: KnowledgeItem[] = [];
+    const examples: ExampleItem[] = [];
+    const entryCounts = new Map<string, number>();
+    const rejected: RejectedEntry[] = [];
+    for (const source of sources) {
+      const entries = this.readSourceEntries(source, rejected);
+      const category = getJsonlCategory(source.path);
+      entryCounts.set(source.key, entries.length);
+
+      for (const { data, line } of entries) {
+        const item = { ...data, origin: source.origin, pack: source.pack, category, source_file: source.key, source_line: line };
+        if (source.kind === 'knowledge') knowledge.push(item);
+        else examples.push(item);
       }
+    }
 
-      // Load knowledge data from knowledge/ folder
-      const knowledgeDir = join(dataDir, 'knowledge');
-      const knowledge = loadJsonlFromDirectory<KnowledgeItem>(knowledgeDir);
-      console.log(`📖 Total knowledge loaded: ${knowledge.length} items`);
+    const changes = this.populateData(knowledge, examples);
 
-      // Load examples data from patterns/ folder
-      const patternsDir = join(dataDir, 'patterns');
-      const examples = loadJsonlFromDirectory<ExampleItem>(patternsDir);
-      console.log(`💻 Total patterns loaded: ${examples.length} items`);
+    const upsertSource = this.db.query(`
+      INSERT INTO sync_sources (path, kind, content_hash, entry_count, synced_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(path) DO UPDATE SET
+        kind = excluded.kind,
+        content_hash = excluded.content_hash,
+        entry_count = excluded.entry_count,
+        synced_at = CURRENT_TIMESTAMP
+    `);
+    const deleteSource = this.db.query('DELETE FROM sync_sources WHERE path = ?');
 
-      // Populate database
-      this.populateData(knowledge, examples);
-      console.log('✅ Database populated successfully from folders');
+    this.db.transaction(() => {
+      for (const source of sources) {
+        upsertSource.run(source.key, source.kind, hashes.get(source.key)!, entryCounts.get(source.key) ?? 0);
+      }
+      for (const key of previous.keys()) {
+        if (!currentKeys.has(key)) deleteSource.run(key);
+      }
+    })();
+
+    const summary: SyncSummary = {
+      skipped: false,
+      files,
+      knowledge: changes.knowledge,
+      examples: changes.examples,
+      rejected,
+      duration_ms: Date.now() - startedAt,
+    };
+    this.setMetadata('rejected_entries', JSON.stringify(rejected));
+    this.setMetadata('last_sync_summary', JSON.stringify(summary));
+    return summary;
+  }
+
+  /**
+   * Entries of a source file. Bundled data fails the sync when it does not parse;
+   * overlay and pack lines that fail the entry schema are skipped and collected in
+   * `rejected`, while the rest of their file loads. (`enable_pack` refuses a pack
+   * with any such line up front.)
+   */
+  private readSourceEntries(source: SyncSource, rejected: RejectedEntry[]): JSONLEntry<any>[] {
+    if ((source.origin ?? 'bundled') === 'bundled') return readJSONLEntries(source.path);
+
+    const result = validateJSONL<KnowledgeItem | ExampleItem>(source.path, source.kind === 'knowledge' ? KnowledgeItemSchema : ExampleItemSchema);
+    rejected.push(...result.issues.map(issue => ({ file: source.path, line: issue.line, message: issue.message })));
+    return result.entries;
+  }
+
+  private logSyncSummary(summary: SyncSummary) {
+    const { files, knowledge, examples } = summary;
+    for (const { file, line, message } of summary.rejected) {
+      logger.warning(`Skipping invalid entry on line ${line} in ${file}: ${message}`);
+    }
+    if (summary.skipped) {
+      logger.info(`📚 Knowledge base up to date (${knowledge.unchanged} knowledge, ${examples.unchanged} examples, ${files.unchanged} files unchanged)`);
+      return;
+    }
+    logger.info(`🔄 Synced ${files.added + files.changed} changed file(s), ${files.removed} removed, ${files.unchanged} unchanged in ${summary.duration_ms}ms`);
+    logger.info(`📖 Knowledge: ${knowledge.inserted} inserted, ${knowledge.updated} updated, ${knowledge.deleted} deleted, ${knowledge.unchanged} unchanged`);
+    logger.info(`💻 Examples: ${examples.inserted} inserted, ${examples.updated} updated, ${examples.deleted} deleted, ${examples.unchanged} unchanged`);
+  }
+
+  /**
+   * Sync every JSONL file under the folders' `knowledge/` and `patterns/`
+   * directories. Folders later in the list win when two entries share a key,
+   * so an overlay can replace a bundled entry.
+   */
+  populateFromFolders(dataDirs: string | DataFolder[], forceResync: boolean = false): SyncSummary {
+    const folders: DataFolder[] = typeof dataDirs === 'string' ? [{ dir: dataDirs, origin: 'bundled' }] : dataDirs;
+    try {
+      const sources: SyncSource[] = folders.flatMap(({ dir, origin, keyPrefix = '', pack, knowledgeDir = 'knowledge', patternsDir = 'patterns' }) => {
+        const toSource = (kind: SyncSource['kind']) => (path: string) => ({
+          path,
+          key: keyPrefix + relative(dir, path).split(sep).join('/'),
+          kind,
+          origin,
+          pack,
+        });
+        return [
+          ...scanJsonlFiles(join(dir, knowledgeDir)).map(toSource('knowledge')),
+          ...scanJsonlFiles(join(dir, patternsDir)).map(toSource('examples')),
+        ];
+      });
+
+      this.syncSynonyms(forceResync, folders.flatMap(folder => folder.synonyms ?? []));
+      const summary = this.syncSources(sources, forceResync);
+      this.logSyncSummary(summary);
+      return summary;
     } catch (error) {
-      console.error('❌ Error loading data from folders:', error);
+      logger.error('❌ Error loading data from folders', error);
       throw error;
     }
   }
@@ -371,195 +942,849 @@ export class Svelte5SearchDB {
   /**
    * Load data from JSONL files (legacy method for backward compatibility)
    */
-  populateFromJSONL(knowledgePath: string, examplesPath: string, forceResync: boolean = false) {
+  populateFromJSONL(knowledgePath: string, examplesPath: string, forceResync: boolean = false): SyncSummary {
     try {
-      // Check if we need to resync or if database is empty
-      const knowledgeCount = this.db.query('SELECT COUNT(*) as count FROM knowledge').get() as { count: number };
-      const examplesCount = this.db.query('SELECT COUNT(*) as count FROM examples').get() as { count: number };
+      this.syncSynonyms(forceResync);
+      const summary = this.syncSources([
+        { path: knowledgePath, key: knowledgePath, kind: 'knowledge' },
+        { path: examplesPath, key: examplesPath, kind: 'examples' },
+      ], forceResync);
+      this.logSyncSummary(summary);
+      return summary;
+    } catch (error) {
+      logger.error('❌ Error loading JSONL data', error);
+      throw error;
+    }
+  }
 
-      if (!forceResync && knowledgeCount.count > 0 && examplesCount.count > 0) {
-        console.log(`📚 Database already populated (${knowledgeCount.count} knowledge, ${examplesCount.count} examples). Use --force to resync.`);
-        return;
+  /**
+   * Truncate text to roughly `maxLength`, preferring line boundaries and never leaving a code fence open
+   */
+  private truncateText(text: string, maxLength: number = 500): string {
+    if (text.length <= maxLength) return text;
+
+    let cutPoint = text.lastIndexOf('\n', maxLength);
+    const atLineBreak = cutPoint >= maxLength * 0.6;
+    if (!atLineBreak) {
+      // Try to cut at a word boundary
+      const lastSpace = text.lastIndexOf(' ', maxLength);
+      cutPoint = lastSpace > maxLength * 0.8 ? lastSpace : maxLength;
+    }
+
+    let truncated = text.substring(0, cutPoint).trimEnd();
+
+    // An odd number of fence lines means the cut landed inside a code block
+    const fences = [...truncated.matchAll(/^[ \t]*(```|~~~)/gm)];
+    if (fences.length % 2 === 1) {
+      const openFence = fences[fences.length - 1];
+      if (openFence.index! > maxLength * 0.5) {
+        // Most of the text is prose; drop the partial code block entirely
+        truncated = truncated.substring(0, openFence.index).trimEnd();
+      } else {
+        truncated += `\n${openFence[1]}`;
       }
+      return truncated + '\n...';
+    }
+
+    return truncated + (atLineBreak ? '\n...' : '...');
+  }
 
-      if (forceResync) {
-        console.log('🔄 Force resync: Clearing existing data...');
-        this.db.query('DELETE FROM knowledge').run();
-        this.db.query('DELETE FROM examples').run();
-        this.db.query('DELETE FROM synonyms').run();
-        console.log('✅ Existing data cleared');
+  /**
+   * The passages of an answer around the one that best matches the query,
+   * within roughly `maxLength`. A code block keeps the prose that introduces it;
+   * a prose passage too long on its own is cut to the FTS5 snippet around the
+   * match. Null when no passage matches, e.g. for semantic-only hits.
+   */
+  private answerExcerpt(knowledgeId: number, match: string, maxLength: number): AnswerExcerpt | null {
+    const matched = this.db.query(`
+      SELECT p.position,
+             highlight(knowledge_passages_fts, 0, '<mark>', '</mark>') as highlighted,
+             snippet(knowledge_passages_fts, 0, '', '', '…', ?) as snippet,
+             snippet(knowledge_passages_fts, 0, '<mark>', '</mark>', '…', ?) as highlighted_snippet
+      FROM knowledge_passages_fts
+      JOIN knowledge_passages p ON p.id = knowledge_passages_fts.rowid
+      WHERE knowledge_passages_fts MATCH ? AND p.knowledge_id = ?
+      ORDER BY knowledge_passages_fts.rank
+    `).all(SNIPPET_TOKENS, SNIPPET_TOKENS, match, knowledgeId) as { position: number; highlighted: string; snippet: string; highlighted_snippet: string }[];
+    if (matched.length === 0) return null;
+
+    const passages = this.db.query(`
+      SELECT position, kind, language, content FROM knowledge_passages WHERE knowledge_id = ? ORDER BY position
+    `).all(knowledgeId) as (Omit<Passage, 'text'> & { position: number; content: string })[];
+    const highlighted = new Map(matched.map(passage => [passage.position, passage.highlighted]));
+    const [best] = matched;
+    const passage = passages[best.position];
+    const around = (first: number, last: number) => ({
+      text: passages.slice(first, last + 1).map(p => p.content).join('\n\n'),
+      highlighted: passages.slice(first, last + 1).map(p => highlighted.get(p.position) ?? p.content).join('\n\n'),
+    });
+
+    let first = best.position;
+    let last = best.position;
+    let excerpt = around(first, last);
+    if (excerpt.text.length > maxLength) {
+      excerpt = passage.kind === 'prose'
+        ? { text: best.snippet, highlighted: best.highlighted_snippet }
+        : { text: this.truncateText(excerpt.text, maxLength), highlighted: this.truncateText(excerpt.highlighted, maxLength) };
+    } else {
+      const fits = (from: number, to: number) => around(from, to).text.length <= maxLength;
+      if (passage.kind === 'code' && first > 0 && passages[first - 1].kind === 'prose' && fits(first - 1, last)) first--;
+      // Widen with neighbours while they fit, what follows the match first
+      for (;;) {
+        if (last + 1 < passages.length && fits(first, last + 1)) last++;
+        else if (first > 0 && fits(first - 1, last)) first--;
+        else break;
       }
+      excerpt = around(first, last);
+    }
 
-      // Load knowledge data
-      const knowledge = readJSONL<KnowledgeItem>(knowledgePath);
-      console.log(`📖 Loaded ${knowledge.length} knowledge items from JSONL`);
+    const before = first > 0 ? '...\n\n' : '';
+    const after = last < passages.length - 1 ? '\n\n...' : '';
+    return {
+      text: before + excerpt.text + after,
+      highlighted: before + excerpt.highlighted + after,
+      passage: { position: best.position, kind: passage.kind, language: passage.language },
+    };
+  }
 
-      // Load examples data
-      const examples = readJSONL<ExampleItem>(examplesPath);
-      console.log(`💻 Loaded ${examples.length} examples from JSONL`);
+  private expandQuery(query: string): { fts: string; matches: SynonymMatch[] } {
+    const matches = findSynonymGroups(query, this.getSynonymGroups());
 
-      // Populate database
-      this.populateData(knowledge, examples);
-      console.log('✅ Database populated successfully');
-    } catch (error) {
-      console.error('❌ Error loading JSONL data:', error);
-      throw error;
+    // Create FTS5 query with OR operators
+    const fts = expandWithSynonyms(query, matches)
+      .map(term => `"${term.replace(/"/g, '""')}"`)
+      .join(' OR ');
+
+    return { fts, matches };
+  }
+
+
+  private getVocabulary(table: 'knowledge' | 'examples'): Map<string, number> {
+    let vocabulary = this.vocabularyCache.get(table);
+    if (!vocabulary) {
+      const rows = this.db.query(`SELECT term, doc FROM ${table}_vocab`).all() as { term: string; doc: number }[];
+      vocabulary = new Map(rows.map(row => [row.term, row.doc]));
+      this.vocabularyCache.set(table, vocabulary);
     }
+    return vocabulary;
   }
 
   /**
-   * Truncate text to specified length with ellipsis
+   * Correct misspelled words and complete partial ones against the indexed
+   * vocabulary, then expand the corrected query with synonyms. Besides the
+   * expanded phrases, the MATCH expression requires every recognised word
+   * (`"snip"*` for partial words) so one typo no longer sinks the whole query.
    */
-  private truncateText(text: string, maxLength: number = 500): string {
-    if (text.length <= maxLength) return text;
+  private buildMatchQuery(table: 'knowledge' | 'examples', query: string) {
+    const vocabulary = this.getVocabulary(table);
+    const required: string[] = [];
+    const words: { word: string; match: TermMatch['kind']; term: string }[] = [];
+    let changed = false;
+
+    // `$` is a token separator in the FTS index, so `$derivd` and `derivd` resolve alike
+    const corrected = query.replace(/(\$?)([\p{L}\p{N}]+)/gu, (text, dollar: string, word: string) => {
+      const match = matchTerm(word.toLowerCase(), vocabulary);
+      words.push({ word: text, match: match.kind, term: match.term });
+      const phrase = `"${match.term.replace(/"/g, '""')}"`;
+      switch (match.kind) {
+        case 'exact':
+          required.push(phrase);
+          return text;
+        case 'prefix':
+          required.push(`${phrase}*`);
+          return text;
+        case 'corrected':
+          required.push(phrase);
+          changed = true;
+          return dollar + match.term;
+        default:
+          return text;
+      }
+    });
 
-    // Try to cut at a word boundary
-    const truncated = text.substring(0, maxLength);
-    const lastSpace = truncated.lastIndexOf(' ');
-    const cutPoint = lastSpace > maxLength * 0.8 ? lastSpace : maxLength;
+    const { fts: expanded, matches: synonymMatches } = this.expandQuery(corrected);
+    const allWords = required.join(' ');
+    const match = required.length > 0 && allWords !== `"${corrected.toLowerCase()}"`
+      ? `${expanded} OR (${allWords})`
+      : expanded;
 
-    return text.substring(0, cutPoint) + '...';
+    return { match, corrected, didYouMean: changed ? corrected : undefined, words, synonymMatches };
   }
 
-  private expandQuery(query: string): string {
-    // Get synonyms for terms in the query
-    const synonymsQuery = this.db.query(`
-      SELECT term, synonyms FROM synonyms
-      WHERE term LIKE '%' || ? || '%' OR ? LIKE '%' || term || '%'
-    `);
+  /**
+   * Show how a query is rewritten before it reaches FTS5: per-word typo and
+   * prefix handling, the synonym groups it triggered and the final MATCH expression
+   */
+  explainQuery(query: string, table: 'knowledge' | 'examples' = 'knowledge') {
+    const { match, corrected, didYouMean, words, synonymMatches } = this.buildMatchQuery(table, query);
+    return {
+      query,
+      corrected_query: corrected,
+      ...(didYouMean && { did_you_mean: didYouMean }),
+      words,
+      synonym_groups: synonymMatches.map(({ group, matched }) => ({
+        term: group.term,
+        matched,
+        synonyms: group.synonyms,
+        source: group.source,
+      })),
+      fts_query: match,
+    };
+  }
 
-    const words = query.toLowerCase().split(/\s+/);
-    const expandedTerms = new Set([query]);
+  /**
+   * Build the `AND <alias>.category IN (...)` clause for a category filter. Categories
+   * keep the case of their file names, so they are compared case-insensitively.
+   */
+  private categoryFilter(alias: string, category: SearchOptions['category']): { sql: string; params: string[] } {
+    const categories = (Array.isArray(category) ? category : category ? [category] : [])
+      .map(c => c.trim().toLowerCase())
+      .filter(Boolean);
+    if (categories.length === 0) return { sql: '', params: [] };
+    return { sql: `AND ${alias}.category COLLATE NOCASE IN (${categories.map(() => '?').join(', ')})`, params: categories };
+  }
 
-    for (const word of words) {
-      const synonymRows = synonymsQuery.all(word, word) as SynonymRow[];
-      for (const row of synonymRows) {
-        const synonyms = JSON.parse(row.synonyms);
-        synonyms.forEach((synonym: string) => expandedTerms.add(synonym));
+  private sourceOf(row: SourceRow) {
+    return row.source_file ? { file: row.source_file, line: row.source_line } : null;
+  }
 
-        // Add variations of the original query with synonyms
-        synonyms.forEach((synonym: string) => {
-          expandedTerms.add(query.replace(new RegExp(word, 'gi'), synonym));
-        });
-      }
+  /**
+   * Entries most similar to the query by embedding, best first
+   */
+  private semanticSearch(table: 'knowledge' | 'examples', query: string, category: SearchOptions['category']) {
+    let vectors = this.vectorCache.get(table);
+    if (!vectors) {
+      vectors = (this.db.query(`
+        SELECT v.id, t.category, v.vector
+        FROM ${table}_vectors v
+        JOIN ${table} t ON t.id = v.id
+      `).all() as { id: number; category: string | null; vector: Uint8Array }[])
+        .map(row => ({ id: row.id, category: row.category, vector: blobToVector(row.vector) }));
+      this.vectorCache.set(table, vectors);
     }
 
-    // Create FTS5 query with OR operators
-    return Array.from(expandedTerms)
-      .map(term => `"${term.replace(/"/g, '""')}"`)
-      .join(' OR ');
+    const categories = this.categoryFilter('t', category).params;
+    const queryVector = embed(query);
+
+    return vectors
+      .filter(entry => categories.length === 0 || (entry.category !== null && categories.includes(entry.category.toLowerCase())))
+      .map(entry => ({ id: entry.id, similarity: cosineSimilarity(queryVector, entry.vector) }))
+      .filter(entry => entry.similarity >= MIN_SEMANTIC_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
   }
 
-  searchKnowledge(query: string, limit: number = 3, maxAnswerLength: number = 800) {
-    const expandedQuery = this.expandQuery(query);
+  /**
+   * Rank every matching entry by keyword and/or semantic retrieval according to `mode`
+   */
+  private rankEntries(
+    mode: SearchMode,
+    keywordMatches: () => { id: number; rank: number }[],
+    semanticMatches: () => { id: number; similarity: number }[],
+  ): RankedEntry[] {
+    if (mode === 'keyword') {
+      return keywordMatches().map(match => ({ id: match.id, score: -match.rank, matched_by: ['keyword'] }));
+    }
+    if (mode === 'semantic') {
+      return semanticMatches().map(match => ({ id: match.id, score: match.similarity, matched_by: ['semantic'] }));
+    }
 
-    const searchQuery = this.db.query(`
-      SELECT k.*,
-             knowledge_fts.rank,
-             highlight(knowledge_fts, 0, '<mark>', '</mark>') as highlighted_question,
-             highlight(knowledge_fts, 1, '<mark>', '</mark>') as highlighted_answer
+    const keywordIds = keywordMatches().map(match => match.id);
+    const semanticIds = semanticMatches().map(match => match.id);
+    const keywordSet = new Set(keywordIds);
+    const semanticSet = new Set(semanticIds);
+
+    return reciprocalRankFusion([keywordIds, semanticIds]).map(({ item: id, score }) => ({
+      id,
+      score,
+      matched_by: [
+        ...(keywordSet.has(id) ? ['keyword' as const] : []),
+        ...(semanticSet.has(id) ? ['semantic' as const] : []),
+      ],
+    }));
+  }
+
+  private resolveOffset(options: SearchOptions): number {
+    return options.cursor ? decodeCursor(options.cursor) : Math.max(0, Math.floor(options.offset ?? 0));
+  }
+
+  searchKnowledge(query: string, limit: number = 3, options: SearchOptions = {}) {
+    const { category, mode = 'keyword', maxLength: maxAnswerLength = 800 } = options;
+    const offset = this.resolveOffset(options);
+    const { match: expandedQuery, corrected, didYouMean } = this.buildMatchQuery('knowledge', query);
+    const filter = this.categoryFilter('k', category);
+
+    const matchQuery = this.db.query(`
+      SELECT k.id, knowledge_fts.rank
       FROM knowledge_fts
       JOIN knowledge k ON k.id = knowledge_fts.rowid
-      WHERE knowledge_fts MATCH ?
+      WHERE knowledge_fts MATCH ? ${filter.sql}
       ORDER BY knowledge_fts.rank
-      LIMIT ?
     `);
-
-    const results = searchQuery.all(expandedQuery, limit) as KnowledgeSearchRow[];
+    const highlightQuery = this.db.query(`
+      SELECT highlight(knowledge_fts, 0, '<mark>', '</mark>') as highlighted_question,
+             highlight(knowledge_fts, 1, '<mark>', '</mark>') as highlighted_answer
+      FROM knowledge_fts
+      WHERE knowledge_fts MATCH ? AND knowledge_fts.rowid = ?
+    `);
+    const getEntry = this.db.query('SELECT * FROM knowledge WHERE id = ?');
+
+    const ranked = this.rankEntries(
+      mode,
+      () => matchQuery.all(expandedQuery, ...filter.params) as { id: number; rank: number }[],
+      () => this.semanticSearch('knowledge', corrected, category),
+    );
+    const page = paginate(ranked, offset, limit);
+
+    const results = page.items.map(({ id, score, matched_by }) => {
+      const row = getEntry.get(id) as KnowledgeSearchRow;
+      // Semantic-only hits have no FTS highlights
+      const highlights = matched_by.includes('keyword')
+        ? highlightQuery.get(expandedQuery, id) as Pick<KnowledgeSearchRow, 'highlighted_question' | 'highlighted_answer'>
+        : { highlighted_question: row.question, highlighted_answer: row.answer };
+      // Long answers are cut around the passage that matched rather than at their head
+      const excerpt = row.answer.length > maxAnswerLength && matched_by.includes('keyword')
+        ? this.answerExcerpt(id, expandedQuery, maxAnswerLength)
+        : null;
+      return {
+        id: row.id,
+        origin: row.origin ?? 'bundled',
+        pack: row.pack ?? null,
+        category: row.category,
+        source: this.sourceOf(row),
+        question: row.question,
+        answer: excerpt?.text ?? this.truncateText(row.answer, maxAnswerLength),
+        level: this.levelOf(row),
+        highlighted_question: highlights.highlighted_question,
+        highlighted_answer: excerpt?.highlighted ?? this.truncateText(highlights.highlighted_answer, maxAnswerLength),
+        matched_passage: excerpt?.passage ?? null,
+        truncated: row.answer.length > maxAnswerLength,
+        relevance_score: score, // FTS5 rank negated, cosine similarity or fused RRF score depending on mode
+        matched_by,
+        related: this.relatedOf('knowledge', row.id, RELATED_PER_RESULT),
+      };
+    });
 
     return {
       query,
+      ...(didYouMean && { did_you_mean: didYouMean }),
+      mode,
       expanded_query: expandedQuery,
+      total_matches: page.total,
       total_results: results.length,
-      results: results.map(row => ({
-        id: row.id,
-        question: row.question,
-        answer: this.truncateText(row.answer, maxAnswerLength),
-        highlighted_question: row.highlighted_question,
-        highlighted_answer: this.truncateText(row.highlighted_answer, maxAnswerLength),
-        relevance_score: -row.rank, // FTS5 rank is negative, convert to positive
-      }))
+      offset: page.offset,
+      next_offset: page.next_offset,
+      next_cursor: page.next_cursor,
+      results,
     };
   }
 
-  searchExamples(query: string, limit: number = 3, maxContentLength: number = 400) {
-    const expandedQuery = this.expandQuery(query);
+  searchExamples(query: string, limit: number = 3, options: SearchOptions = {}) {
+    const { category, mode = 'keyword', maxLength: maxContentLength = 400 } = options;
+    const offset = this.resolveOffset(options);
+    const { match: expandedQuery, corrected, didYouMean } = this.buildMatchQuery('examples', query);
+    const filter = this.categoryFilter('e', category);
 
-    const searchQuery = this.db.query(`
-      SELECT e.*,
-             examples_fts.rank,
-             highlight(examples_fts, 0, '<mark>', '</mark>') as highlighted_instruction,
-             highlight(examples_fts, 1, '<mark>', '</mark>') as highlighted_input,
-             highlight(examples_fts, 2, '<mark>', '</mark>') as highlighted_output
+    const matchQuery = this.db.query(`
+      SELECT e.id, examples_fts.rank
       FROM examples_fts
       JOIN examples e ON e.id = examples_fts.rowid
-      WHERE examples_fts MATCH ?
+      WHERE examples_fts MATCH ? ${filter.sql}
       ORDER BY examples_fts.rank
+    `);
+    const highlightQuery = this.db.query(`
+      SELECT highlight(examples_fts, 0, '<mark>', '</mark>') as highlighted_instruction,
+             highlight(examples_fts, 1, '<mark>', '</mark>') as highlighted_input,
+             highlight(examples_fts, 2, '<mark>', '</mark>') as highlighted_output
+      FROM examples_fts
+      WHERE examples_fts MATCH ? AND examples_fts.rowid = ?
+    `);
+    const getEntry = this.db.query('SELECT * FROM examples WHERE id = ?');
+
+    let ranked = this.rankEntries(
+      mode,
+      () => matchQuery.all(expandedQuery, ...filter.params) as { id: number; rank: number }[],
+      () => this.semanticSearch('examples', corrected, category),
+    );
+    if (options.verifiedOnly) {
+      const verified = this.verifiedExampleIds();
+      ranked = ranked.filter(entry => verified.has(entry.id));
+    }
+    const page = paginate(ranked, offset, limit);
+
+    const results = page.items.map(({ id, score, matched_by }) => {
+      const row = getEntry.get(id) as ExampleSearchRow;
+      const highlights = matched_by.includes('keyword')
+        ? highlightQuery.get(expandedQuery, id) as Pick<ExampleSearchRow, 'highlighted_instruction' | 'highlighted_input' | 'highlighted_output'>
+        : { highlighted_instruction: row.instruction, highlighted_input: row.input, highlighted_output: row.output };
+      return {
+        id: row.id,
+        origin: row.origin ?? 'bundled',
+        pack: row.pack ?? null,
+        category: row.category,
+        source: this.sourceOf(row),
+        instruction: this.truncateText(row.instruction, maxContentLength),
+        input: this.truncateText(row.input, maxContentLength),
+        output: this.truncateText(row.output, maxContentLength),
+        highlighted_instruction: this.truncateText(highlights.highlighted_instruction, maxContentLength),
+        highlighted_input: this.truncateText(highlights.highlighted_input, maxContentLength),
+        highlighted_output: this.truncateText(highlights.highlighted_output, maxContentLength),
+        truncated: [row.instruction, row.input, row.output].some(text => text.length > maxContentLength),
+        complexity: codeComplexity(row.output),
+        verification: this.verificationOf(row.id, row.content_hash),
+        relevance_score: score,
+        matched_by,
+        related: this.relatedOf('examples', row.id, RELATED_PER_RESULT),
+      };
+    });
+
+    return {
+      query,
+      ...(didYouMean && { did_you_mean: didYouMean }),
+      mode,
+      expanded_query: expandedQuery,
+      total_matches: page.total,
+      total_results: results.length,
+      offset: page.offset,
+      next_offset: page.next_offset,
+      next_cursor: page.next_cursor,
+      results,
+    };
+  }
+
+  private toKnowledgeEntry(row: KnowledgeSearchRow & { version: number; updated_at: string }) {
+    return {
+      id: row.id,
+      origin: row.origin ?? 'bundled',
+      pack: row.pack ?? null,
+      category: row.category,
+      source: this.sourceOf(row),
+      question: row.question,
+      answer: row.answer,
+      level: this.levelOf(row),
+      related_keys: JSON.parse(row.related_keys ?? '[]') as string[],
+      version: row.version,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private toExampleEntry(row: ExampleSearchRow & { version: number; updated_at: string }) {
+    return {
+      id: row.id,
+      origin: row.origin ?? 'bundled',
+      pack: row.pack ?? null,
+      category: row.category,
+      source: this.sourceOf(row),
+      instruction: row.instruction,
+      input: row.input,
+      output: row.output,
+      complexity: codeComplexity(row.output),
+      verification: this.verificationOf(row.id, row.content_hash),
+      related_keys: JSON.parse(row.related_keys ?? '[]') as string[],
+      version: row.version,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /**
+   * Stored level, or an inferred one for rows synced before levels were recorded
+   */
+  private levelOf(row: Pick<KnowledgeSearchRow, 'level' | 'question' | 'answer'>): DifficultyLevel {
+    return row.level ?? inferDifficulty(row.question, row.answer);
+  }
+
+  /**
+   * Compile check of an example's current content; null until it has been checked
+   */
+  private verificationOf(id: number, contentHash: string | null): ExampleVerification | null {
+    const check = this.db.query(`
+      SELECT kind, status, errors, warnings FROM example_checks
+      WHERE id = ? AND verifier = ? AND content_hash IS ?
+    `).get(id, VERIFIER_VERSION, contentHash) as { kind: ExampleVerification['kind']; status: ExampleVerification['status']; errors: string; warnings: string } | null;
+    if (!check) return null;
+    return { kind: check.kind, status: check.status, errors: JSON.parse(check.errors), warnings: JSON.parse(check.warnings) };
+  }
+
+  private verifiedExampleIds(): Set<number> {
+    const rows = this.db.query(`
+      SELECT c.id FROM example_checks c
+      JOIN examples e ON e.id = c.id
+      WHERE c.status = 'passed' AND c.verifier = ? AND c.content_hash IS e.content_hash
+    `).all(VERIFIER_VERSION) as { id: number }[];
+    return new Set(rows.map(row => row.id));
+  }
+
+  /**
+   * Compile check results with the example they belong to, optionally only those with one status
+   */
+  listExampleChecks(status?: ExampleVerification['status']) {
+    const rows = this.db.query(`
+      SELECT e.id, e.instruction, e.source_file, e.source_line, e.origin, e.pack, e.category, c.kind, c.status, c.errors, c.warnings
+      FROM example_checks c
+      JOIN examples e ON e.id = c.id
+      WHERE c.verifier = ? AND c.content_hash IS e.content_hash ${status ? 'AND c.status = ?' : ''}
+      ORDER BY e.source_file, e.source_line, e.id
+    `).all(...(status ? [VERIFIER_VERSION, status] : [VERIFIER_VERSION])) as (SourceRow & {
+      id: number;
+      instruction: string;
+      kind: ExampleVerification['kind'];
+      status: ExampleVerification['status'];
+      errors: string;
+      warnings: string;
+    })[];
+
+    return rows.map(row => ({
+      id: row.id,
+      instruction: row.instruction,
+      source: this.sourceOf(row),
+      kind: row.kind,
+      status: row.status,
+      errors: JSON.parse(row.errors) as string[],
+      warnings: JSON.parse(row.warnings) as string[],
+    }));
+  }
+
+  /**
+   * Full, untruncated knowledge entry
+   */
+  getKnowledge(id: number) {
+    const row = this.db.query('SELECT * FROM knowledge WHERE id = ?').get(id) as (KnowledgeSearchRow & { version: number; updated_at: string }) | null;
+    return row ? this.toKnowledgeEntry(row) : null;
+  }
+
+  /**
+   * Full, untruncated example entry
+   */
+  getExample(id: number) {
+    const row = this.db.query('SELECT * FROM examples WHERE id = ?').get(id) as (ExampleSearchRow & { version: number; updated_at: string }) | null;
+    return row ? this.toExampleEntry(row) : null;
+  }
+
+  /**
+   * Look up a knowledge entry by its question
+   */
+  findKnowledge(question: string) {
+    const row = this.db.query('SELECT * FROM knowledge WHERE question = ?').get(question) as (KnowledgeSearchRow & { version: number; updated_at: string }) | null;
+    return row ? this.toKnowledgeEntry(row) : null;
+  }
+
+  /**
+   * Look up an example by its instruction
+   */
+  findExample(instruction: string) {
+    const row = this.db.query('SELECT * FROM examples WHERE instruction = ?').get(instruction) as (ExampleSearchRow & { version: number; updated_at: string }) | null;
+    return row ? this.toExampleEntry(row) : null;
+  }
+
+  /**
+   * Examples linked to a knowledge entry, or knowledge entries linked to an
+   * example; null when the entry does not exist
+   */
+  getRelated(type: 'knowledge' | 'examples', id: number, limit: number = 5) {
+    const title = type === 'knowledge' ? 'question' : 'instruction';
+    const row = this.db.query(`SELECT id, ${title} AS title FROM ${type} WHERE id = ?`).get(id) as { id: number; title: string } | null;
+    return row ? { type, id: row.id, title: row.title, related: this.relatedOf(type, id, limit) } : null;
+  }
+
+  /**
+   * Entries of the other table linked to one entry, explicit links first
+   */
+  private relatedOf(type: 'knowledge' | 'examples', id: number, limit: number): RelatedEntry[] {
+    const [own, other, otherType, title] = type === 'knowledge'
+      ? ['knowledge_id', 'example_id', 'examples', 'instruction'] as const
+      : ['example_id', 'knowledge_id', 'knowledge', 'question'] as const;
+    const rows = this.db.query(`
+      SELECT t.id, t.${title} AS title, t.category, r.score, r.source, r.shared
+      FROM knowledge_examples r
+      JOIN ${otherType} t ON t.id = r.${other}
+      WHERE r.${own} = ?
+      ORDER BY r.source = 'explicit' DESC, r.score DESC, t.id
       LIMIT ?
+    `).all(id, limit) as { id: number; title: string; category: string | null; score: number; source: RelatedEntry['source']; shared: string }[];
+    return rows.map(row => ({ type: otherType, ...row, shared: JSON.parse(row.shared) }));
+  }
+
+  /**
+   * Reference for a rune, API, template tag, special element or directive: its
+   * catalog signature, summary and Svelte 4 equivalents, with the entries that
+   * mention it, those about it first. Accepts the name with or without its
+   * sigils (`state.raw`, `@render`, `boundary`); `suggestions` lists close
+   * names when nothing matches.
+   */
+  lookupApi(query: string, limit: number = 10) {
+    const names = (this.db.query('SELECT name FROM api_symbols ORDER BY name').all() as { name: string }[]).map(row => row.name);
+    const name = resolveApiSymbol(query, names);
+    if (!name) return { found: false as const, suggestions: suggestApiSymbols(query, names) };
+
+    const row = this.db.query('SELECT * FROM api_symbols WHERE name = ?').get(name) as
+      { name: string; kind: ApiSymbol['kind']; module: string | null; signature: string | null; summary: string | null; svelte4: string };
+    const counts = this.db.query(`
+      SELECT entry_type, COUNT(*) AS count FROM api_mentions WHERE symbol = ? GROUP BY entry_type
+    `).all(name) as { entry_type: 'knowledge' | 'examples'; count: number }[];
+    const total = (type: 'knowledge' | 'examples') => counts.find(count => count.entry_type === type)?.count ?? 0;
+
+    const entries = (this.db.query(`
+      SELECT m.entry_type AS type, m.entry_id AS id, COALESCE(k.question, e.instruction) AS title,
+        COALESCE(k.category, e.category) AS category, m.in_title
+      FROM api_mentions m
+      LEFT JOIN knowledge k ON m.entry_type = 'knowledge' AND k.id = m.entry_id
+      LEFT JOIN examples e ON m.entry_type = 'examples' AND e.id = m.entry_id
+      WHERE m.symbol = ?
+      ORDER BY m.in_title DESC, m.entry_type = 'knowledge' DESC, m.entry_id
+      LIMIT ?
+    `).all(name, limit) as (Omit<ApiMention, 'in_title'> & { in_title: number })[])
+      .map(entry => ({ ...entry, in_title: Boolean(entry.in_title) }));
+
+    // `$state` leads to `$state.raw` and `$state.snapshot`, and they lead back to it
+    const base = name.split('.')[0];
+    const seeAlso = names.filter(other => other !== name && (other === base || other.startsWith(`${base}.`)));
+
+    return {
+      found: true as const,
+      symbol: {
+        name: row.name,
+        kind: row.kind,
+        module: row.module,
+        signature: row.signature,
+        summary: row.summary,
+        svelte4: JSON.parse(row.svelte4) as string[],
+      },
+      total_mentions: { knowledge: total('knowledge'), examples: total('examples') },
+      entries,
+      see_also: seeAlso,
+    };
+  }
+
+  /**
+   * Page through knowledge entries in id order, optionally within one category
+   */
+  listKnowledge(options: ListOptions = {}) {
+    const { total, rows } = this.listRows('knowledge', options);
+    return { total, entries: (rows as (KnowledgeSearchRow & { version: number; updated_at: string })[]).map(row => this.toKnowledgeEntry(row)) };
+  }
+
+  /**
+   * Page through examples in id order, optionally within one category
+   */
+  listExamples(options: ListOptions = {}) {
+    const { total, rows } = this.listRows('examples', options);
+    return { total, entries: (rows as (ExampleSearchRow & { version: number; updated_at: string })[]).map(row => this.toExampleEntry(row)) };
+  }
+
+  private listRows(table: 'knowledge' | 'examples', options: ListOptions) {
+    const { category, offset = 0, limit = 50 } = options;
+    const filter = this.categoryFilter('t', category);
+    const { count } = this.db.query(`SELECT COUNT(*) as count FROM ${table} t WHERE 1 = 1 ${filter.sql}`).get(...filter.params) as { count: number };
+    const rows = this.db.query(`
+      SELECT * FROM ${table} t
+      WHERE 1 = 1 ${filter.sql}
+      ORDER BY t.id
+      LIMIT ? OFFSET ?
+    `).all(...filter.params, limit, offset);
+    return { total: count, rows };
+  }
+
+  /**
+   * Keyword search ranked by BM25 with a weight per FTS column. With `explain`,
+   * each result also breaks its score down by query phrase: FTS5 sums one BM25
+   * term per phrase of the MATCH expression, so scoring the row against each
+   * phrase alone gives contributions that add up to the total.
+   */
+  searchRanked(query: string, type: 'knowledge' | 'examples', limit: number = 5, options: RankedSearchOptions = {}) {
+    const { category, maxLength = 400, explain = false } = options;
+    const columns = FTS_COLUMNS[type];
+    const weights = this.resolveColumnWeights(type, options.weights);
+    const weightArgs = columns.map(() => '?').join(', ');
+    const offset = this.resolveOffset(options);
+    const { match: expandedQuery, didYouMean } = this.buildMatchQuery(type, query);
+    const filter = this.categoryFilter('t', category);
+
+    const matchQuery = this.db.query(`
+      SELECT t.id, bm25(${type}_fts, ${weightArgs}) AS bm25
+      FROM ${type}_fts
+      JOIN ${type} t ON t.id = ${type}_fts.rowid
+      WHERE ${type}_fts MATCH ? ${filter.sql}
+      ORDER BY bm25
     `);
+    const getEntry = this.db.query(`SELECT * FROM ${type} WHERE id = ?`);
 
-    const results = searchQuery.all(expandedQuery, limit) as ExampleSearchRow[];
+    const weightValues = columns.map(column => weights[column]);
+    const ranked = matchQuery.all(...weightValues, expandedQuery, ...filter.params) as { id: number; bm25: number }[];
+    const page = paginate(ranked, offset, limit);
+
+    const results = page.items.map(({ id, bm25 }) => {
+      const row = getEntry.get(id) as (KnowledgeSearchRow | ExampleSearchRow);
+      const [title, text] = 'question' in row ? [row.question, row.answer] : [row.instruction, row.output];
+      const excerpt = type === 'knowledge' && text.length > maxLength ? this.answerExcerpt(id, expandedQuery, maxLength) : null;
+      return {
+        id: row.id,
+        origin: row.origin ?? 'bundled',
+        pack: row.pack ?? null,
+        category: row.category,
+        source: this.sourceOf(row),
+        title,
+        text: excerpt?.text ?? this.truncateText(text, maxLength),
+        truncated: text.length > maxLength,
+        // bm25() is lower-is-better; negate it like relevance_score
+        score: -bm25,
+        ...(explain && { explanation: this.explainScore(type, id, expandedQuery, weights) }),
+        related: this.relatedOf(type, row.id, RELATED_PER_RESULT),
+      };
+    });
 
     return {
       query,
+      ...(didYouMean && { did_you_mean: didYouMean }),
+      type,
       expanded_query: expandedQuery,
+      weights,
+      total_matches: page.total,
       total_results: results.length,
-      results: results.map(row => ({
-        id: row.id,
-        instruction: this.truncateText(row.instruction, maxContentLength),
-        input: this.truncateText(row.input, maxContentLength),
-        output: this.truncateText(row.output, maxContentLength),
-        highlighted_instruction: this.truncateText(row.highlighted_instruction, maxContentLength),
-        highlighted_input: this.truncateText(row.highlighted_input, maxContentLength),
-        highlighted_output: this.truncateText(row.highlighted_output, maxContentLength),
-        relevance_score: -row.rank,
-      }))
+      offset: page.offset,
+      next_offset: page.next_offset,
+      next_cursor: page.next_cursor,
+      results,
     };
   }
 
-  // Advanced search with custom scoring
-  searchWithBoosts(query: string, type: 'knowledge' | 'examples', options: {
-    limit?: number;
-    questionBoost?: number; // for knowledge
-    instructionBoost?: number; // for examples
-    codeBoost?: number; // boost for code-related terms
-  } = {}) {
-    const { limit = 5, questionBoost = 2.0, instructionBoost = 1.5, codeBoost = 1.5 } = options;
-    const expandedQuery = this.expandQuery(query);
-
-    if (type === 'knowledge') {
-      // Custom scoring for knowledge with question boost
-      const searchQuery = this.db.query(`
-        SELECT k.*,
-               (knowledge_fts.rank *
-                CASE WHEN knowledge_fts.rank < -10 THEN ? ELSE 1.0 END +
-                CASE WHEN k.question LIKE '%$%' OR k.answer LIKE '%$%' THEN ? ELSE 1.0 END
-               ) as custom_score
-        FROM knowledge_fts
-        JOIN knowledge k ON k.id = knowledge_fts.rowid
-        WHERE knowledge_fts MATCH ?
-        ORDER BY custom_score
-        LIMIT ?
-      `);
+  /**
+   * Default weights with overrides applied, rejecting columns the table does not have
+   */
+  private resolveColumnWeights(type: 'knowledge' | 'examples', overrides: Record<string, number> = {}): Record<string, number> {
+    const columns: readonly string[] = FTS_COLUMNS[type];
+    for (const [column, weight] of Object.entries(overrides)) {
+      if (!columns.includes(column)) {
+        throw new Error(`Unknown ${type} column "${column}". Expected one of: ${columns.join(', ')}`);
+      }
+      if (!Number.isFinite(weight) || weight < 0) {
+        throw new Error(`Weight for "${column}" must be a non-negative number`);
+      }
+    }
+    return { ...DEFAULT_COLUMN_WEIGHTS[type], ...overrides };
+  }
 
-      return searchQuery.all(questionBoost, codeBoost, expandedQuery, limit) as CustomScoreRow[];
-    } else {
-      // Custom scoring for examples with instruction boost and code detection
-      const searchQuery = this.db.query(`
-        SELECT e.*,
-               (examples_fts.rank *
-                CASE WHEN examples_fts.rank < -10 THEN ? ELSE 1.0 END +
-                CASE WHEN e.output LIKE '%$%' OR e.output LIKE '%{%' THEN ? ELSE 1.0 END
-               ) as custom_score
-        FROM examples_fts
-        JOIN examples e ON e.id = examples_fts.rowid
-        WHERE examples_fts MATCH ?
-        ORDER BY custom_score
-        LIMIT ?
-      `);
+  /**
+   * Score one row against each phrase of the MATCH expression on its own
+   */
+  private explainScore(type: 'knowledge' | 'examples', id: number, match: string, weights: Record<string, number>): ScoreExplanation {
+    const columns = FTS_COLUMNS[type];
+    const phraseQuery = this.db.query(`
+      SELECT bm25(${type}_fts, ${columns.map(() => '?').join(', ')}) AS bm25,
+             ${columns.map((_, index) => `highlight(${type}_fts, ${index}, '\u0002', '') AS c${index}`).join(', ')}
+      FROM ${type}_fts
+      WHERE ${type}_fts MATCH ? AND ${type}_fts.rowid = ?
+    `);
+
+    // A phrase listed twice in the expression (e.g. a word that is also its own synonym) scores twice
+    const occurrences = new Map<string, number>();
+    for (const [phrase] of match.matchAll(/"(?:[^"]|"")*"\*?/g)) {
+      occurrences.set(phrase, (occurrences.get(phrase) ?? 0) + 1);
+    }
 
-      return searchQuery.all(instructionBoost, codeBoost, expandedQuery, limit) as CustomScoreRow[];
+    const terms: ScoreExplanation['terms'] = [];
+    for (const [phrase, count] of occurrences) {
+      const row = phraseQuery.get(...columns.map(column => weights[column]), phrase, id) as Record<string, number | string> | null;
+      if (!row) continue;
+
+      const hits = Object.fromEntries(columns.map((column, index) => [column, String(row[`c${index}`]).split('\u0002').length - 1]));
+      terms.push({
+        term: phrase.replace(/^"|"(?=\*?$)/g, '').replace(/""/g, '"'),
+        occurrences: count,
+        hits,
+        weighted_frequency: columns.reduce((sum, column) => sum + weights[column] * hits[column], 0),
+        contribution: -Number(row.bm25) * count,
+      });
     }
+    terms.sort((a, b) => b.contribution - a.contribution);
+
+    return {
+      matched_terms: terms.map(term => term.term),
+      weights,
+      terms,
+      score: terms.reduce((sum, term) => sum + term.contribution, 0),
+    };
+  }
+
+  /**
+   * Categories (source file names) with their entry counts
+   */
+  getCategories(): { knowledge: Record<string, number>; examples: Record<string, number> } {
+    const count = (table: 'knowledge' | 'examples') => Object.fromEntries(
+      (this.db.query(`
+        SELECT category, COUNT(*) as count FROM ${table}
+        WHERE category IS NOT NULL
+        GROUP BY category ORDER BY category
+      `).all() as { category: string; count: number }[]).map(row => [row.category, row.count])
+    );
+    return { knowledge: count('knowledge'), examples: count('examples') };
+  }
+
+  /**
+   * Indexed entries per knowledge pack
+   */
+  getPackCounts(): Record<string, { knowledge: number; examples: number }> {
+    const counts: Record<string, { knowledge: number; examples: number }> = {};
+    for (const table of ['knowledge', 'examples'] as const) {
+      const rows = this.db.query(`
+        SELECT pack, COUNT(*) as count FROM ${table}
+        WHERE pack IS NOT NULL
+        GROUP BY pack
+      `).all() as { pack: string; count: number }[];
+      for (const { pack, count } of rows) {
+        counts[pack] ??= { knowledge: 0, examples: 0 };
+        counts[pack][table] = count;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Examples per compile-check status and kind; examples not yet checked count as `unchecked`
+   */
+  private getExampleCheckCounts() {
+    const rows = this.db.query(`
+      SELECT c.status, c.kind, COUNT(*) as count
+      FROM examples e
+      JOIN example_checks c ON c.id = e.id AND c.verifier = ? AND c.content_hash IS e.content_hash
+      GROUP BY c.status, c.kind
+    `).all(VERIFIER_VERSION) as { status: ExampleVerification['status']; kind: ExampleVerification['kind']; count: number }[];
+
+    const counts = {
+      verifier: VERIFIER_VERSION,
+      passed: 0,
+      failed: 0,
+      unchecked: this.countRows('examples'),
+      by_kind: {} as Record<string, { passed: number; failed: number }>,
+    };
+    for (const { status, kind, count } of rows) {
+      counts[status] += count;
+      counts.unchecked -= count;
+      counts.by_kind[kind] ??= { passed: 0, failed: 0 };
+      counts.by_kind[kind][status] += count;
+    }
+    return counts;
+  }
+
+  getStats() {
+    const knowledge = this.db.query('SELECT COUNT(*) as count FROM knowledge').get() as { count: number };
+    const examples = this.db.query('SELECT COUNT(*) as count FROM examples').get() as { count: number };
+    return {
+      knowledge_count: knowledge.count,
+      examples_count: examples.count,
+      db_version: this.getMetadata('db_version'),
+      schema_version: getSchemaVersion(this.db),
+      last_sync: this.getMetadata('last_sync'),
+      last_sync_summary: JSON.parse(this.getMetadata('last_sync_summary') || 'null') as SyncSummary | null,
+      example_checks: this.getExampleCheckCounts(),
+    };
+  }
+
+  /**
+   * Drop in-memory caches after another connection changed the database
+   */
+  refresh() {
+    this.synonymGroups = null;
+    this.vocabularyCache.clear();
+    this.vectorCache.clear();
   }
 
   close() {
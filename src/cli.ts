@@ -0,0 +1,371 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { readFileSync, statSync, writeFileSync } from "fs";
+import { resolve } from "path";
+
+import { Svelte5SearchDB, type DataFolder } from "./Svelte5SearchDB.js";
+import { getFlagValue, hasFlag } from "./utils/args.js";
+import { getDatabasePath } from "./utils/config.js";
+import { formatDataIssue, validateDataFolders } from "./utils/data-validation.js";
+
+/**
+ * Command line subcommands for using the knowledge base without an MCP client
+ *
+ *   svelte5-mcp search "<query>"   svelte5-mcp explain <concept>   svelte5-mcp audit <path>
+ *   svelte5-mcp stats              svelte5-mcp sync                svelte5-mcp export
+ *   svelte5-mcp validate-data      svelte5-mcp verify-examples
+ *
+ * Search, explain and audit run the MCP tool handlers and use their structured
+ * output; every command prints human-readable text, or the raw result with `--json`.
+ */
+
+export interface CliContext {
+  args: string[];
+  getDataFolders: () => DataFolder[];
+  /** Build the MCP server, which syncs the knowledge base, to run its tools directly */
+  createToolRunner: () => {
+    callTool: (name: string, args: Record<string, unknown>) => Promise<CallToolResult>;
+    close: () => void;
+  };
+}
+
+export const CLI_COMMANDS: Record<string, string> = {
+  search: 'search "<query>" [--type knowledge|examples|all] [--limit N] [--category name] [--mode keyword|semantic|hybrid]',
+  explain: "explain <concept> [--detail basic|intermediate|advanced]",
+  audit: "audit <file-or-directory...> [--focus performance|accessibility|best-practices|all]",
+  stats: "stats",
+  sync: "sync [--force]",
+  export: "export [--type knowledge|examples|all] [--category name] [--output file]",
+  "validate-data": "validate-data [dir...]",
+  "verify-examples": "verify-examples [--failed]",
+};
+
+/** Flags that take a value, so their values are not mistaken for positional arguments */
+export const CLI_VALUE_FLAGS = ["--type", "--limit", "--category", "--mode", "--detail", "--focus", "--output"];
+
+const EXPORT_PAGE_SIZE = 500;
+
+function option(args: string[], flag: string): string | undefined {
+  const value = getFlagValue(args, flag);
+  return typeof value === "string" ? value : undefined;
+}
+
+function choice<T extends string>(args: string[], flag: string, choices: readonly T[], fallback: T): T {
+  const value = option(args, flag) ?? fallback;
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid ${flag} "${value}". Expected one of: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+function print(json: boolean, value: unknown, human: () => string) {
+  console.log(json ? JSON.stringify(value, null, 2) : human());
+}
+
+function excerpt(text: string, max: number = 240): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function location(source: { file: string; line: number | null } | null): string {
+  return source ? `${source.file}${source.line ? `:${source.line}` : ""}` : "";
+}
+
+export function formatUsage(): string {
+  return [
+    "Usage: svelte5-mcp [command] [options]",
+    "",
+    "Without a command the MCP server starts on stdio (--http/--port for HTTP).",
+    "",
+    "Commands:",
+    ...Object.values(CLI_COMMANDS).map(usage => `  ${usage}`),
+    "",
+    "Every command accepts --json for machine-readable output.",
+  ].join("\n");
+}
+
+/**
+ * Run a subcommand and return the process exit code
+ */
+export async function runCommand(command: string, positional: string[], context: CliContext): Promise<number> {
+  const { args } = context;
+  const json = hasFlag(args, "--json");
+
+  switch (command) {
+    case "search":
+      return search(positional.join(" "), context, json);
+    case "explain":
+      return explain(positional.join(" "), context, json);
+    case "audit":
+      return audit(positional, context, json);
+    case "stats":
+      return stats(context, json);
+    case "sync":
+      return sync(context, json);
+    case "export":
+      return exportEntries(context, json);
+    case "validate-data":
+      return validateData(positional, context, json);
+    case "verify-examples":
+      return verifyExamples(context, json);
+    case "help":
+      console.log(formatUsage());
+      return 0;
+    default:
+      console.error(`Unknown command "${command}"\n\n${formatUsage()}`);
+      return 1;
+  }
+}
+
+async function withTools<T>(context: CliContext, run: (callTool: (name: string, args: Record<string, unknown>) => Promise<any>) => Promise<T>): Promise<T> {
+  const runner = context.createToolRunner();
+  try {
+    return await run(async (name, toolArgs) => (await runner.callTool(name, toolArgs)).structuredContent);
+  } finally {
+    runner.close();
+  }
+}
+
+function openSyncedDatabase(context: CliContext) {
+  const db = new Svelte5SearchDB();
+  const summary = db.populateFromFolders(context.getDataFolders(), hasFlag(context.args, "--force"));
+  return { db, summary };
+}
+
+async function search(query: string, context: CliContext, json: boolean): Promise<number> {
+  if (!query) throw new Error(`Missing query. Usage: svelte5-mcp ${CLI_COMMANDS.search}`);
+
+  const { args } = context;
+  const type = choice(args, "--type", ["knowledge", "examples", "all"] as const, "all");
+  const limit = option(args, "--limit") ?? "5";
+  if (!/^[1-9]\d*$/.test(limit)) throw new Error(`Invalid --limit "${limit}". Usage: svelte5-mcp ${CLI_COMMANDS.search}`);
+  const toolArgs = {
+    query,
+    limit: Number(limit),
+    mode: choice(args, "--mode", ["keyword", "semantic", "hybrid"] as const, "hybrid"),
+    ...(option(args, "--category") ? { category: option(args, "--category") } : {}),
+  };
+
+  const results = await withTools(context, async callTool => ({
+    ...(type !== "examples" ? { knowledge: await callTool("search_knowledge", toolArgs) } : {}),
+    ...(type !== "knowledge" ? { examples: await callTool("search_examples", toolArgs) } : {}),
+  }));
+
+  print(json, results, () => {
+    const sections: string[] = [];
+    if (results.knowledge) {
+      const { total_matches, results: entries, did_you_mean } = results.knowledge;
+      sections.push([
+        `Knowledge (${entries.length} of ${total_matches})${did_you_mean ? ` — did you mean "${did_you_mean}"?` : ""}`,
+        ...entries.map((entry: any, index: number) => [
+          `  ${index + 1}. [#${entry.id}] ${entry.question}`,
+          `     ${[entry.category, location(entry.source)].filter(Boolean).join(" · ")}`,
+          `     ${excerpt(entry.answer)}`,
+          ...(entry.related.length > 0 ? [`     related examples: ${entry.related.map((ref: any) => `#${ref.id}`).join(", ")}`] : []),
+        ].join("\n")),
+      ].join("\n"));
+    }
+    if (results.examples) {
+      const { total_matches, results: entries } = results.examples;
+      sections.push([
+        `Examples (${entries.length} of ${total_matches})`,
+        ...entries.map((entry: any, index: number) => [
+          `  ${index + 1}. [#${entry.id}] ${entry.instruction}`,
+          `     ${[entry.category, location(entry.source), entry.verification?.status].filter(Boolean).join(" · ")}`,
+          ...entry.output.split("\n").slice(0, 8).map((line: string) => `     | ${line}`),
+          ...(entry.related.length > 0 ? [`     related knowledge: ${entry.related.map((ref: any) => `#${ref.id}`).join(", ")}`] : []),
+        ].join("\n")),
+      ].join("\n"));
+    }
+    return sections.join("\n\n");
+  });
+  return 0;
+}
+
+async function explain(concept: string, context: CliContext, json: boolean): Promise<number> {
+  if (!concept) throw new Error(`Missing concept. Usage: svelte5-mcp ${CLI_COMMANDS.explain}`);
+
+  const detail_level = choice(context.args, "--detail", ["basic", "intermediate", "advanced"] as const, "intermediate");
+  const result = await withTools(context, callTool => callTool("explain_concept", { concept, detail_level }));
+
+  print(json, result, () => {
+    const { explanations = [], code_examples = [] } = result.concept_explanation;
+    return [
+      `# ${concept}`,
+      ...explanations.map((item: any) => `## ${item.question} (${item.level})\n\n${item.answer.trim()}`),
+      ...(code_examples.length > 0 ? ["## Examples"] : []),
+      ...code_examples.map((item: any) => `${item.scenario.trim()}\n\n${item.implementation.trim()}`),
+    ].join("\n\n");
+  });
+  return 0;
+}
+
+async function audit(paths: string[], context: CliContext, json: boolean): Promise<number> {
+  if (paths.length === 0) throw new Error(`Missing path. Usage: svelte5-mcp ${CLI_COMMANDS.audit}`);
+
+  const focus = choice(context.args, "--focus", ["performance", "accessibility", "best-practices", "all"] as const, "all");
+  const reports = await withTools(context, async callTool => {
+    const collected: { path: string; result: any }[] = [];
+    for (const path of paths) {
+      const result = statSync(path).isDirectory()
+        ? await callTool("audit_project", { path: resolve(path), focus })
+        : await callTool("audit_with_rules", { code: readFileSync(path, "utf-8"), filename: path, focus });
+      collected.push({ path, result });
+    }
+    return collected;
+  });
+
+  let errors = 0;
+  const lines: string[] = [];
+  for (const { path, result } of reports) {
+    if (result.project_audit) {
+      const summary = result.project_audit;
+      errors += summary.totals.error;
+      lines.push(
+        `${path}: ${summary.files_scanned} files, ${summary.files_with_findings} with findings `
+          + `(${summary.totals.error} errors, ${summary.totals.warning} warnings, ${summary.totals.info} info), `
+          + `${summary.migration_progress.percent_migrated}% migrated to runes`,
+        ...summary.worst_files.map((file: any) => `  ${file.path}: ${file.errors} errors, ${file.warnings} warnings, ${file.info} info`),
+      );
+    } else {
+      const { findings, summary } = result.code_audit;
+      errors += summary.errors;
+      lines.push(
+        ...findings.map((finding: any) => `${path}:${finding.line}:${finding.column}: ${finding.severity} [${finding.rule}] ${finding.message}`),
+        `${path}: ${summary.errors} errors, ${summary.warnings} warnings, ${summary.info} info`,
+      );
+    }
+  }
+
+  print(json, reports, () => lines.join("\n"));
+  return errors > 0 ? 1 : 0;
+}
+
+async function stats(context: CliContext, json: boolean): Promise<number> {
+  const { db } = openSyncedDatabase(context);
+  try {
+    const result = {
+      database: getDatabasePath(),
+      ...db.getStats(),
+      categories: db.getCategories(),
+      packs: db.getPackCounts(),
+    };
+
+    print(json, result, () => {
+      const categoryList = (counts: Record<string, number>) =>
+        Object.entries(counts).map(([category, count]) => `${category} ${count}`).join(", ");
+      const checks = result.example_checks;
+      return [
+        `Database:  ${result.database} (schema version ${result.schema_version})`,
+        `Knowledge: ${result.knowledge_count} entries (${categoryList(result.categories.knowledge)})`,
+        `Examples:  ${result.examples_count} entries (${categoryList(result.categories.examples)})`,
+        `Checks:    ${checks.passed} passed, ${checks.failed} failed, ${checks.unchecked} unchecked (${checks.verifier})`,
+        ...Object.entries(result.packs).map(([pack, counts]) => `Pack:      ${pack} (${counts.knowledge} knowledge, ${counts.examples} examples)`),
+        `Last sync: ${result.last_sync ?? "never"}`,
+      ].join("\n");
+    });
+    return 0;
+  } finally {
+    db.close();
+  }
+}
+
+async function sync(context: CliContext, json: boolean): Promise<number> {
+  const { db, summary } = openSyncedDatabase(context);
+  db.close();
+
+  print(json, summary, () => {
+    const { files, knowledge, examples } = summary;
+    const changes = (counts: typeof knowledge) =>
+      `${counts.inserted} inserted, ${counts.updated} updated, ${counts.deleted} deleted, ${counts.unchanged} unchanged`;
+    return [
+      summary.skipped ? "Knowledge base up to date" : `Synced in ${summary.duration_ms}ms`,
+      `Files:     ${files.added} added, ${files.changed} changed, ${files.removed} removed, ${files.unchanged} unchanged`,
+      `Knowledge: ${changes(knowledge)}`,
+      `Examples:  ${changes(examples)}`,
+      ...summary.rejected.map(({ file, line, message }) => `Skipped:   ${file}:${line}: ${message}`),
+    ].join("\n");
+  });
+  return 0;
+}
+
+/**
+ * Entries as JSONL in the source format (one `--type` per file can be dropped into an overlay or pack), or as full records with `--json`
+ */
+async function exportEntries(context: CliContext, json: boolean): Promise<number> {
+  const { args } = context;
+  const type = choice(args, "--type", ["knowledge", "examples", "all"] as const, "all");
+  const category = option(args, "--category");
+  const output = option(args, "--output");
+
+  const { db } = openSyncedDatabase(context);
+  const knowledge: ReturnType<Svelte5SearchDB["listKnowledge"]>["entries"] = [];
+  const examples: ReturnType<Svelte5SearchDB["listExamples"]>["entries"] = [];
+  try {
+    for (let offset = 0; type !== "examples"; offset += EXPORT_PAGE_SIZE) {
+      const page = db.listKnowledge({ category, offset, limit: EXPORT_PAGE_SIZE });
+      knowledge.push(...page.entries);
+      if (offset + EXPORT_PAGE_SIZE >= page.total) break;
+    }
+    for (let offset = 0; type !== "knowledge"; offset += EXPORT_PAGE_SIZE) {
+      const page = db.listExamples({ category, offset, limit: EXPORT_PAGE_SIZE });
+      examples.push(...page.entries);
+      if (offset + EXPORT_PAGE_SIZE >= page.total) break;
+    }
+  } finally {
+    db.close();
+  }
+
+  const text = json
+    ? JSON.stringify({ knowledge, examples }, null, 2)
+    : [
+      ...knowledge.map(({ question, answer, level, related_keys }) => JSON.stringify({ question, answer, level, ...(related_keys.length > 0 ? { related: related_keys } : {}) })),
+      ...examples.map(({ instruction, input, output, related_keys }) => JSON.stringify({ instruction, input, output, ...(related_keys.length > 0 ? { related: related_keys } : {}) })),
+    ].join("\n");
+
+  if (output) {
+    writeFileSync(output, text + "\n", "utf-8");
+    console.error(`Exported ${knowledge.length} knowledge entries and ${examples.length} examples to ${output}`);
+  } else {
+    console.log(text);
+  }
+  return 0;
+}
+
+/**
+ * Lint the given data folders, or every folder the server loads
+ */
+async function validateData(dirs: string[], context: CliContext, json: boolean): Promise<number> {
+  const folders = dirs.length > 0 ? dirs.map(dir => ({ dir: resolve(dir) })) : context.getDataFolders();
+  const report = validateDataFolders(folders);
+
+  print(json, report, () => [
+    ...report.issues.map(formatDataIssue),
+    `\n${report.files} files, ${report.entries} entries: ${report.errors} errors, ${report.warnings} warnings`,
+  ].join("\n"));
+
+  return report.errors > 0 ? 1 : 0;
+}
+
+/**
+ * Sync the data, compile-check new or changed examples and report the results
+ */
+async function verifyExamples(context: CliContext, json: boolean): Promise<number> {
+  const { db } = openSyncedDatabase(context);
+  try {
+    const checks = db.listExampleChecks(hasFlag(context.args, "--failed") ? "failed" : undefined);
+    const counts = db.getStats().example_checks;
+
+    print(json, { ...counts, examples: checks }, () => [
+      ...checks.flatMap(check => [
+        `${location(check.source) || `#${check.id}`}: ${check.status} (${check.kind}) ${check.instruction.slice(0, 80)}`,
+        ...check.errors.map(error => `  error: ${error}`),
+        ...check.warnings.map(warning => `  warning: ${warning}`),
+      ]),
+      `\n${counts.verifier}: ${counts.passed} passed, ${counts.failed} failed, ${counts.unchecked} unchecked`,
+    ].join("\n"));
+
+    return counts.failed > 0 ? 1 : 0;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,234 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { logger } from "./utils/logger.js";
+
+/**
+ * HTTP transport: MCP Streamable HTTP on /mcp, legacy SSE on /sse + /messages,
+ * and an unauthenticated /health endpoint. Every session gets its own MCP
+ * Server instance built by `createMcpServer`, while the knowledge base behind
+ * them is shared.
+ */
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Bearer token required on every MCP endpoint when set */
+  token?: string;
+  createMcpServer: () => Server;
+  health?: () => Record<string, unknown>;
+  /** Close Streamable HTTP sessions that saw no request for this long; default 30 minutes */
+  idleTimeoutMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivity: number;
+  /** Open GET streams; a client listening on one is not idle */
+  openStreams: number;
+}
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) throw new Error("Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export function startHttpServer(options: HttpServerOptions) {
+  const { port, host, token, createMcpServer, health, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS } = options;
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+
+  const openSession = async (transport: StreamableHTTPServerTransport | SSEServerTransport) => {
+    const server = createMcpServer();
+    await server.connect(transport);
+    logger.attach(server);
+    return server;
+  };
+
+  const closeSession = (sessionId: string | undefined) => {
+    if (!sessionId) return;
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    logger.detach(session.server);
+    logger.debug(`HTTP session closed: ${sessionId}`);
+  };
+
+  // SSE sessions end with their connection; Streamable HTTP clients may just stop sending requests
+  const expireIdleSessions = async () => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) continue;
+      if (session.openStreams > 0 || now - session.lastActivity < idleTimeoutMs) continue;
+
+      logger.debug(`HTTP session expired after ${Math.round((now - session.lastActivity) / 1000)}s idle: ${sessionId}`);
+      closeSession(sessionId);
+      await session.server.close().catch(error => logger.warning(`Could not close expired HTTP session ${sessionId}`, error));
+    }
+  };
+  const sweep = setInterval(() => void expireIdleSessions(), Math.min(idleTimeoutMs, 60 * 1000));
+  sweep.unref();
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+
+      if (existing) {
+        if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 400, "Session belongs to the SSE transport");
+          return;
+        }
+        existing.lastActivity = Date.now();
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No valid session ID provided");
+        return;
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, server, lastActivity: Date.now(), openStreams: 0 });
+          logger.debug(`HTTP session opened: ${id}`);
+        },
+      });
+      transport.onclose = () => closeSession(transport.sessionId);
+      const server = await openSession(transport);
+      try {
+        await transport.handleRequest(req, res, body);
+      } finally {
+        // A failed initialize leaves no session that would detach the server on close
+        if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+          logger.detach(server);
+          await server.close();
+        }
+      }
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!existing || !(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No valid session ID provided");
+        return;
+      }
+      existing.lastActivity = Date.now();
+      if (req.method === "GET") {
+        existing.openStreams++;
+        res.on("close", () => {
+          existing.openStreams--;
+          existing.lastActivity = Date.now();
+        });
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res);
+    const server = await openSession(transport);
+    sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now(), openStreams: 0 });
+    logger.debug(`SSE session opened: ${transport.sessionId}`);
+    res.on("close", () => closeSession(transport.sessionId));
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Unknown session");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (url.pathname === "/health") {
+        sendJson(res, 200, {
+          status: "ok",
+          sessions: sessions.size,
+          uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+          ...health?.(),
+        });
+        return;
+      }
+
+      if (token && !isAuthorized(req, token)) {
+        sendJsonRpcError(res, 401, "Unauthorized");
+        return;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSse(req, res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      logger.error(`HTTP request failed: ${req.method} ${url.pathname}`, error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof SyntaxError ? "Parse error" : "Internal server error");
+      }
+    }
+  });
+
+  httpServer.on("close", () => clearInterval(sweep));
+
+  return new Promise<typeof httpServer>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      logger.info(`Svelte5 MCP: HTTP server listening on http://${host}:${port} (Streamable HTTP at /mcp, SSE at /sse)${token ? " with bearer token auth" : ""}`);
+      resolve(httpServer);
+    });
+  });
+}
@@ -1,4 +1,4 @@
-#!/usr/bin/env bun
+#!/usr/bin/env node
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
@@ -6,32 +6,129 @@ import {
   CallToolRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   GetPromptRequestSchema,
+  SetLevelRequestSchema,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { z } from "zod";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 
-import {Svelte5SearchDB} from "./Svelte5SearchDB.js";
-import { logConfigPaths } from "./utils/config.js";
-import { loadJsonlFromDirectory } from "./utils/jsonl.js";
+import { DEFAULT_COLUMN_WEIGHTS, Svelte5SearchDB, type DataFolder } from "./Svelte5SearchDB.js";
+import { getDatabasePath, getOverlayDirectory, logConfigPaths } from "./utils/config.js";
+import { appendOverlayEntry, DEFAULT_OVERLAY_CATEGORY } from "./utils/overlay.js";
+import { discoverPacks, readPackSynonyms, setPackEnabled, type KnowledgePack } from "./utils/packs.js";
+import { auditSvelteSource } from "./utils/audit.js";
+import { findSchemaErrors } from "./utils/data-validation.js";
+import { migrateSvelteSource } from "./utils/migrate.js";
+import { auditProject } from "./utils/project-audit.js";
+import { isLogLevel, LOG_LEVELS, logger } from "./utils/logger.js";
+import { getFlagValue, getPositionalArgs, hasFlag } from "./utils/args.js";
+import { CLI_VALUE_FLAGS, runCommand } from "./cli.js";
+import { COMPLEXITY_LEVELS, DIFFICULTY_LEVELS } from "./utils/difficulty.js";
+import { selectFromPasses, type RetrievalPass } from "./utils/selection.js";
+import { startHttpServer } from "./http.js";
+import { listResources, readResource, RESOURCE_TEMPLATES } from "./resources.js";
+import { OutputFormatSchema, toolResult, withStructuredOutput, type ToolOutput } from "./tool-output.js";
+
+const DEFAULT_HTTP_PORT = 3000;
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const forceResync = hasFlag(args, '--force');
+
+const [command, ...commandArgs] = getPositionalArgs(args, ['--log-level', '--log-file', '--port', '--host', '--token', ...CLI_VALUE_FLAGS]);
+
+// Configure logging before anything else writes a message
+const logLevelArg = getFlagValue(args, '--log-level');
+if (typeof logLevelArg === 'string') {
+  if (!isLogLevel(logLevelArg)) {
+    process.stderr.write(`Invalid --log-level "${logLevelArg}". Expected one of: ${LOG_LEVELS.join(', ')}\n`);
+    process.exit(1);
+  }
+  logger.configure({ level: logLevelArg });
+} else if (command !== undefined && !process.env.SVELTE5_MCP_LOG_LEVEL) {
+  // Keep sync progress out of command output unless asked for
+  logger.configure({ level: 'warning' });
+}
+const logFileArg = getFlagValue(args, '--log-file');
+if (logFileArg !== undefined) {
+  logger.configure({ file: logFileArg });
+}
 
 // Get the directory of the current module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load knowledge and examples content
-const knowledgeDir = join(__dirname, 'data', 'knowledge');
-const patternsDir = join(__dirname, 'data', 'patterns');
-const knowledgeContent = loadJsonlFromDirectory(knowledgeDir);
-const examplesContent = loadJsonlFromDirectory(patternsDir);
-
 // Zod schemas for validation
 const SearchQuerySchema = z.object({
   query: z.string().describe("Search query"),
-  limit: z.number().optional().default(5).describe("Maximum number of results"),
+  limit: z.number().int().min(1).optional().default(5).describe("Maximum number of results"),
+  category: z.union([z.string(), z.array(z.string())]).optional().describe("Restrict results to one or more categories"),
+  mode: z.enum(["keyword", "semantic", "hybrid"]).optional().default("hybrid").describe("Retrieval mode"),
+  offset: z.number().int().min(0).optional().describe("Number of results to skip"),
+  cursor: z.string().optional().describe("next_cursor from a previous page"),
+});
+
+const SearchExamplesSchema = SearchQuerySchema.extend({
+  verified_only: z.boolean().optional().default(false).describe("Only return examples that compile under Svelte 5"),
+});
+
+const RankedSearchSchema = z.object({
+  query: z.string().describe("Search query"),
+  type: z.enum(["knowledge", "examples"]).optional().default("knowledge").describe("Which index to search"),
+  weights: z.record(z.number().min(0)).optional().describe("BM25 weight per column"),
+  limit: z.number().int().min(1).optional().default(5).describe("Maximum number of results"),
+  category: z.union([z.string(), z.array(z.string())]).optional().describe("Restrict results to one or more categories"),
+  offset: z.number().int().min(0).optional().describe("Number of results to skip"),
+  cursor: z.string().optional().describe("next_cursor from a previous page"),
+  explain: z.boolean().optional().default(false).describe("Break each result's score down by term"),
+});
+
+const ExpandQuerySchema = z.object({
+  query: z.string().describe("Search query to expand"),
+  type: z.enum(["knowledge", "examples"]).optional().default("knowledge").describe("Which index's vocabulary to correct against"),
+});
+
+const AddKnowledgeSchema = z.object({
+  question: z.string().trim().min(1).describe("Question the entry answers"),
+  answer: z.string().trim().min(1).describe("Answer in markdown"),
+  level: z.enum(DIFFICULTY_LEVELS).optional().describe("Difficulty; inferred from the text when omitted"),
+  related: z.array(z.string().trim().min(1)).optional().describe("Instructions of examples to link to"),
+  category: z.string().optional().default(DEFAULT_OVERLAY_CATEGORY).describe("Overlay file to append to"),
+});
+
+const AddExampleSchema = z.object({
+  instruction: z.string().trim().min(1).describe("What the example demonstrates"),
+  input: z.string().optional().default("").describe("Context or explanation"),
+  output: z.string().trim().min(1).describe("Svelte 5 code"),
+  related: z.array(z.string().trim().min(1)).optional().describe("Questions of knowledge entries to link to"),
+  category: z.string().optional().default(DEFAULT_OVERLAY_CATEGORY).describe("Overlay file to append to"),
+});
+
+const PackNameSchema = z.object({
+  name: z.string().describe("Pack name from list_packs"),
+});
+
+const GetEntrySchema = z.object({
+  id: z.number().int().describe("Entry id from a search result"),
+});
+
+const RelatedSchema = z.object({
+  type: z.enum(["knowledge", "examples"]).describe("Table the entry id belongs to"),
+  id: z.number().int().describe("Entry id from a search result"),
+  limit: z.number().int().min(1).optional().default(5).describe("Maximum number of related entries"),
+});
+
+const LookupApiSchema = z.object({
+  name: z.string().trim().min(1).describe("Rune, API, template tag, special element or directive"),
+  limit: z.number().int().min(1).optional().default(10).describe("Maximum number of mentioning entries"),
 });
 
 const GenerateComponentSchema = z.object({
@@ -43,6 +140,19 @@ const GenerateComponentSchema = z.object({
 const AuditCodeSchema = z.object({
   code: z.string().describe("Svelte 5 code to audit"),
   focus: z.enum(["performance", "accessibility", "best-practices", "all"]).optional().default("all"),
+  filename: z.string().optional().describe("File name, used to detect .svelte.ts/.svelte.js rune modules"),
+});
+
+const AuditProjectSchema = z.object({
+  path: z.string().describe("Directory of the Svelte project to audit"),
+  focus: z.enum(["performance", "accessibility", "best-practices", "all"]).optional().default("all"),
+  worst_files: z.number().optional().default(10).describe("Number of worst files to list"),
+  max_files: z.number().optional().describe("Stop after this many files"),
+});
+
+const MigrateComponentSchema = z.object({
+  code: z.string().describe("Svelte 4 component source to migrate"),
+  filename: z.string().optional().describe("Component file name"),
 });
 
 const ExplainConceptSchema = z.object({
@@ -50,30 +160,66 @@ const ExplainConceptSchema = z.object({
   detail_level: z.enum(["basic", "intermediate", "advanced"]).optional().default("intermediate"),
 });
 
-// Parse command line arguments
-const args = process.argv.slice(2);
-const forceResync = args.includes('--force');
+function packFolder(pack: KnowledgePack): DataFolder {
+  let synonyms: DataFolder["synonyms"] = [];
+  try {
+    synonyms = readPackSynonyms(pack);
+  } catch (error) {
+    logger.warning(`Ignoring synonyms of pack "${pack.manifest.name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    dir: pack.dir,
+    origin: "pack",
+    keyPrefix: `packs/${pack.manifest.name}/`,
+    pack: pack.manifest.name,
+    knowledgeDir: pack.manifest.knowledge,
+    patternsDir: pack.manifest.patterns,
+    synonyms,
+  };
+}
+
+/**
+ * Why an entry's grade fits the requested one, e.g. "intermediate entry, the closest available to the basic detail level"
+ */
+function gradeReason(label: string, matched: boolean, goal: string): string {
+  return matched ? `${label} for the ${goal}` : `${label}, the closest available to the ${goal}`;
+}
+
+/**
+ * Bundled data first, then enabled packs, then the user's overlay, so overlay entries win on conflicts
+ */
+function getDataFolders(overlayDir: string = getOverlayDirectory()): DataFolder[] {
+  const packs = discoverPacks().filter(pack => pack.enabled).map(packFolder);
+  return [
+    { dir: join(__dirname, 'data'), origin: "bundled" },
+    ...packs,
+    { dir: overlayDir, origin: "local", keyPrefix: "local/" },
+  ];
+}
+
+// explain_concept: candidates considered, explanations returned, and answer length and examples per detail level
+const EXPLAIN_CANDIDATES = 10;
+const EXPLANATION_COUNT = 3;
+const EXPLANATION_LENGTH = { basic: 600, intermediate: 1200, advanced: 2400 };
+const EXPLAIN_EXAMPLE_COUNT = { basic: 1, intermediate: 2, advanced: 3 };
+
+// generate_with_context: candidates per retrieval pass, and patterns and knowledge entries per complexity
+const GENERATE_CANDIDATES = 6;
+const GENERATE_PATTERN_COUNT = { simple: 2, moderate: 3, complex: 5 };
+const GENERATE_KNOWLEDGE_COUNT = { simple: 1, moderate: 2, complex: 3 };
+
+// Tools that write to the server's config directory or read its file system; off over HTTP unless --allow-host-tools
+const HOST_TOOLS = new Set(["add_knowledge", "add_example", "enable_pack", "disable_pack", "audit_project"]);
 
 class Svelte5MCPServer {
-  private server: Server;
-  private searchDB?: Svelte5SearchDB;
+  private searchDB: Svelte5SearchDB;
+  private readonly: boolean;
+  private hostTools: boolean;
+  private overlayDir = getOverlayDirectory();
 
-  constructor() {
-    this.server = new Server(
-      {
-        name: "svelte5-mcp-server",
-        version: "1.0.0",
-        description: "MCP server for Svelte 5 frontend development with curated knowledge and examples",
-      },
-      {
-        capabilities: {
-          resources: {},
-          tools: {},
-          prompts: {},
-        },
-      }
-    );
-    this.setupHandlers();
+  constructor(options: { readonly?: boolean; hostTools?: boolean } = {}) {
+    this.hostTools = options.hostTools ?? true;
 
     // Log configuration paths for debugging
     logConfigPaths();
@@ -81,70 +227,88 @@ class Svelte5MCPServer {
     // Initialize database with config-based path
     this.searchDB = new Svelte5SearchDB();
 
-    // Load data from modular JSONL folders
-    const dataDir = join(__dirname, 'data');
-
     // Force resync if --force argument is provided
     if (forceResync) {
-      console.log('🔄 Force resync enabled - reloading knowledge base...');
+      logger.info('🔄 Force resync enabled - reloading knowledge base...');
     }
 
-    this.searchDB.populateFromFolders(dataDir, forceResync);
+    // Load data from modular JSONL folders
+    this.searchDB.populateFromFolders(getDataFolders(this.overlayDir), forceResync);
+
+    // Shared servers reopen the synced database read-only for all sessions
+    const dbPath = getDatabasePath();
+    this.readonly = Boolean(options.readonly) && dbPath !== ':memory:';
+    if (this.readonly) {
+      this.searchDB.close();
+      this.searchDB = new Svelte5SearchDB(dbPath, { readonly: true });
+    }
   }
 
+  close() {
+    this.searchDB.close();
+  }
 
+  /**
+   * Index overlay changes right away, through a writable connection when sessions share a read-only one
+   */
+  private reindex() {
+    if (!this.readonly) {
+      this.searchDB.populateFromFolders(getDataFolders(this.overlayDir));
+      return;
+    }
 
-  private setupHandlers() {
+    const writer = new Svelte5SearchDB(getDatabasePath());
+    try {
+      writer.populateFromFolders(getDataFolders(this.overlayDir));
+    } finally {
+      writer.close();
+    }
+    this.searchDB.refresh();
+  }
 
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
-        {
-          uri: "svelte5://knowledge",
-          mimeType: "application/json",
-          name: "Svelte 5 Knowledge Base",
-          description: "Curated Q&A knowledge base for Svelte 5 concepts, features, and best practices",
-        },
-        {
-          uri: "svelte5://examples",
-          mimeType: "application/json", 
-          name: "Svelte 5 Code Examples",
-          description: "Searchable collection of Svelte 5 code patterns and component examples",
+  /**
+   * Create an MCP server bound to the shared knowledge base (one per session)
+   */
+  createServer(): Server {
+    const server = new Server(
+      {
+        name: "svelte5-mcp-server",
+        version: "1.0.0",
+        description: "MCP server for Svelte 5 frontend development with curated knowledge and examples",
+      },
+      {
+        capabilities: {
+          resources: {},
+          tools: {},
+          prompts: {},
+          logging: {},
         },
-      ],
-    }));
+      }
+    );
+    this.setupHandlers(server);
+    return server;
+  }
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
+  private setupHandlers(server: Server) {
 
-      switch (uri) {
-        case "svelte5://knowledge":
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: "application/json",
-                text: JSON.stringify(knowledgeContent, null, 2),
-              },
-            ],
-          };
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      logger.setClientLevel(server, request.params.level);
+      return {};
+    });
 
-        case "svelte5://examples":
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: "application/json", 
-                text: JSON.stringify(examplesContent, null, 2),
-              },
-            ],
-          };
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+      listResources(this.searchDB, request.params?.cursor)
+    );
 
-        default:
-          throw new Error(`Unknown resource: ${uri}`);
-      }
-    });
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      readResource(this.searchDB, request.params.uri)
+    );
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: "search_knowledge",
@@ -160,6 +324,21 @@ class Svelte5MCPServer {
                 type: "number",
                 default: 5,
                 description: "Maximum number of results"
+              },
+              category: this.getCategoryProperty("knowledge"),
+              mode: {
+                type: "string",
+                enum: ["keyword", "semantic", "hybrid"],
+                default: "hybrid",
+                description: "keyword: full-text match; semantic: local embedding similarity, finds entries phrased differently from the query; hybrid: both, merged by reciprocal-rank fusion"
+              },
+              offset: {
+                type: "number",
+                description: "Number of results to skip"
+              },
+              cursor: {
+                type: "string",
+                description: "next_cursor from a previous page (takes precedence over offset)"
               }
             },
             required: ["query"]
@@ -179,14 +358,276 @@ class Svelte5MCPServer {
                 type: "number",
                 default: 5,
                 description: "Maximum number of results"
+              },
+              category: this.getCategoryProperty("examples"),
+              mode: {
+                type: "string",
+                enum: ["keyword", "semantic", "hybrid"],
+                default: "hybrid",
+                description: "keyword: full-text match; semantic: local embedding similarity, finds entries phrased differently from the query; hybrid: both, merged by reciprocal-rank fusion"
+              },
+              offset: {
+                type: "number",
+                description: "Number of results to skip"
+              },
+              cursor: {
+                type: "string",
+                description: "next_cursor from a previous page (takes precedence over offset)"
+              },
+              verified_only: {
+                type: "boolean",
+                default: false,
+                description: "Only return examples whose code compiles under Svelte 5 without deprecated syntax"
+              }
+            },
+            required: ["query"]
+          },
+        },
+        {
+          name: "search",
+          description: "Keyword search of the knowledge base or examples ranked by BM25 with adjustable column weights. With explain, each result lists the matched terms, their hits per column and how much each contributed to the score",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Search query"
+              },
+              type: {
+                type: "string",
+                enum: ["knowledge", "examples"],
+                default: "knowledge",
+                description: "Which index to search"
+              },
+              weights: {
+                type: "object",
+                additionalProperties: { type: "number", minimum: 0 },
+                description: `BM25 weight per column; omitted columns keep their default. Knowledge: ${JSON.stringify(DEFAULT_COLUMN_WEIGHTS.knowledge)}; examples: ${JSON.stringify(DEFAULT_COLUMN_WEIGHTS.examples)}`
+              },
+              limit: {
+                type: "number",
+                default: 5,
+                description: "Maximum number of results"
+              },
+              category: {
+                anyOf: [
+                  { type: "string" },
+                  { type: "array", items: { type: "string" } }
+                ],
+                description: "Restrict results to one or more categories (see search_knowledge and search_examples for the available ones)"
+              },
+              offset: {
+                type: "number",
+                description: "Number of results to skip"
+              },
+              cursor: {
+                type: "string",
+                description: "next_cursor from a previous page (takes precedence over offset)"
+              },
+              explain: {
+                type: "boolean",
+                default: false,
+                description: "Add a per-term breakdown of each result's score"
               }
             },
             required: ["query"]
           },
         },
+        {
+          name: "get_knowledge",
+          description: "Get the full, untruncated knowledge entry for an id returned by search_knowledge",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "number",
+                description: "Knowledge entry id"
+              }
+            },
+            required: ["id"]
+          },
+        },
+        {
+          name: "get_example",
+          description: "Get the full, untruncated code example for an id returned by search_examples",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "number",
+                description: "Example id"
+              }
+            },
+            required: ["id"]
+          },
+        },
+        {
+          name: "related",
+          description: "List the examples linked to a knowledge entry, or the knowledge entries linked to an example. Links come from shared runes, template tags and APIs (rarer ones count more) and from related keys listed in the data",
+          inputSchema: {
+            type: "object",
+            properties: {
+              type: {
+                type: "string",
+                enum: ["knowledge", "examples"],
+                description: "Whether the id is a knowledge entry or an example"
+              },
+              id: {
+                type: "number",
+                description: "Entry id from a search result"
+              },
+              limit: {
+                type: "number",
+                default: 5,
+                description: "Maximum number of related entries"
+              }
+            },
+            required: ["type", "id"]
+          },
+        },
+        {
+          name: "lookup_api",
+          description: "Look up a Svelte 5 rune, API, template tag, special element or directive by name ($state.raw, $derived.by, $effect.pre, $props.id, untrack, mount, {@render}, <svelte:boundary>, bind:): its signature, a summary, the Svelte 4 equivalent and the knowledge entries and examples that mention it",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Symbol name, with or without its sigils ($state.raw or state.raw, {@render} or render)"
+              },
+              limit: {
+                type: "number",
+                default: 10,
+                description: "Maximum number of mentioning entries"
+              }
+            },
+            required: ["name"]
+          },
+        },
+        {
+          name: "add_knowledge",
+          description: "Add a Q&A entry to your local knowledge overlay (e.g. team conventions). It is searchable immediately and marked as local in results",
+          inputSchema: {
+            type: "object",
+            properties: {
+              question: {
+                type: "string",
+                description: "Question the entry answers"
+              },
+              answer: {
+                type: "string",
+                description: "Answer in markdown"
+              },
+              level: {
+                type: "string",
+                enum: DIFFICULTY_LEVELS,
+                description: "Difficulty (basic, intermediate or advanced); inferred from the text when omitted"
+              },
+              related: {
+                type: "array",
+                items: { type: "string" },
+                description: "Instructions of examples to link to, besides those found by shared runes and APIs"
+              },
+              category: {
+                type: "string",
+                default: DEFAULT_OVERLAY_CATEGORY,
+                description: "Overlay file to append to (knowledge/<category>.jsonl)"
+              }
+            },
+            required: ["question", "answer"]
+          },
+        },
+        {
+          name: "add_example",
+          description: "Add a code example to your local patterns overlay. It is searchable immediately and marked as local in results",
+          inputSchema: {
+            type: "object",
+            properties: {
+              instruction: {
+                type: "string",
+                description: "What the example demonstrates"
+              },
+              input: {
+                type: "string",
+                description: "Context or explanation"
+              },
+              output: {
+                type: "string",
+                description: "Svelte 5 code"
+              },
+              related: {
+                type: "array",
+                items: { type: "string" },
+                description: "Questions of knowledge entries to link to, besides those found by shared runes and APIs"
+              },
+              category: {
+                type: "string",
+                default: DEFAULT_OVERLAY_CATEGORY,
+                description: "Overlay file to append to (patterns/<category>.jsonl)"
+              }
+            },
+            required: ["instruction", "output"]
+          },
+        },
+        {
+          name: "expand_query",
+          description: "Show how a search query is expanded: typo corrections, prefix matches, the synonym groups it triggers and the final full-text query",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Search query to expand"
+              },
+              type: {
+                type: "string",
+                enum: ["knowledge", "examples"],
+                default: "knowledge",
+                description: "Which index's vocabulary to correct against"
+              }
+            },
+            required: ["query"]
+          },
+        },
+        {
+          name: "list_packs",
+          description: "List installed knowledge packs with their version, categories, enabled state and number of indexed entries",
+          inputSchema: {
+            type: "object",
+            properties: {}
+          },
+        },
+        {
+          name: "enable_pack",
+          description: "Enable an installed knowledge pack and index its entries",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Pack name from list_packs"
+              }
+            },
+            required: ["name"]
+          },
+        },
+        {
+          name: "disable_pack",
+          description: "Disable a knowledge pack and remove its entries from the index",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Pack name from list_packs"
+              }
+            },
+            required: ["name"]
+          },
+        },
         {
           name: "generate_with_context",
-          description: "Generate Svelte 5 components using knowledge context",
+          description: "Gather patterns and knowledge for generating a Svelte 5 component: one retrieval pass for the description and one per feature, with more and more involved patterns as complexity grows. Each item says why it was included",
           inputSchema: {
             type: "object",
             properties: {
@@ -197,13 +638,13 @@ class Svelte5MCPServer {
               features: {
                 type: "array",
                 items: { type: "string" },
-                description: "Specific features to include"
+                description: "Specific features to include; each is searched separately"
               },
               complexity: {
                 type: "string",
                 enum: ["simple", "moderate", "complex"],
                 default: "moderate",
-                description: "Complexity level"
+                description: "Complexity level; sets how many patterns are returned and which code size is preferred"
               }
             },
             required: ["description"]
@@ -224,6 +665,57 @@ class Svelte5MCPServer {
                 enum: ["performance", "accessibility", "best-practices", "all"],
                 default: "all",
                 description: "Focus area"
+              },
+              filename: {
+                type: "string",
+                description: "File name, used to detect .svelte.ts/.svelte.js rune modules"
+              }
+            },
+            required: ["code"]
+          },
+        },
+        {
+          name: "audit_project",
+          description: "Audit every .svelte, .svelte.ts and .svelte.js file in a local project directory (respecting .gitignore) and summarize findings and Svelte 4 → 5 migration progress",
+          inputSchema: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "Directory of the Svelte project to audit"
+              },
+              focus: {
+                type: "string",
+                enum: ["performance", "accessibility", "best-practices", "all"],
+                default: "all",
+                description: "Focus area"
+              },
+              worst_files: {
+                type: "number",
+                default: 10,
+                description: "Number of worst files to list"
+              },
+              max_files: {
+                type: "number",
+                description: "Stop after this many files"
+              }
+            },
+            required: ["path"]
+          },
+        },
+        {
+          name: "migrate_component",
+          description: "Migrate a Svelte 4 component to Svelte 5 runes syntax, listing every change and flagging what needs manual work",
+          inputSchema: {
+            type: "object",
+            properties: {
+              code: {
+                type: "string",
+                description: "Svelte 4 component source to migrate"
+              },
+              filename: {
+                type: "string",
+                description: "Component file name"
               }
             },
             required: ["code"]
@@ -231,7 +723,7 @@ class Svelte5MCPServer {
         },
         {
           name: "explain_concept",
-          description: "Get detailed explanations of Svelte 5 concepts with examples",
+          description: "Explain a Svelte 5 concept with knowledge entries and examples picked for the detail level, ordered from the basics up. Examples linked to the chosen entries (see related) are preferred. Each item says why it was included",
           inputSchema: {
             type: "object",
             properties: {
@@ -243,35 +735,22 @@ class Svelte5MCPServer {
                 type: "string",
                 enum: ["basic", "intermediate", "advanced"],
                 default: "intermediate",
-                description: "Detail level"
+                description: "Detail level; prefers entries tagged with this level, examples of matching complexity, and sets answer length"
               }
             },
             required: ["concept"]
           },
         }
-      ],
+      ].filter(tool => this.hostTools || !HOST_TOOLS.has(tool.name)).map(withStructuredOutput),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-
-      switch (name) {
-        case "search_knowledge":
-          return this.searchKnowledge(args);
-        case "search_examples":
-          return this.searchExamples(args);
-        case "generate_with_context":
-          return this.generateWithContext(args);
-        case "audit_with_rules":
-          return this.auditWithRules(args);
-        case "explain_concept":
-          return this.explainConcept(args);
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
+      logger.debug(`Tool call: ${name}`, args);
+      return this.callTool(name, args, extra);
     });
 
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
       prompts: [
         {
           name: "generate-component",
@@ -340,7 +819,7 @@ class Svelte5MCPServer {
       ],
     }));
 
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       switch (name) {
@@ -358,68 +837,260 @@ class Svelte5MCPServer {
     });
   }
 
-  private async searchKnowledge(args: any) {
-    const { query, limit } = SearchQuerySchema.parse(args);
-    const results = this.searchDB?.searchKnowledge(query, limit);
-    
+  /**
+   * JSON schema for the `category` filter, listing the categories currently indexed
+   */
+  private getCategoryProperty(type: "knowledge" | "examples") {
+    const available = Object.keys(this.searchDB.getCategories()[type]);
     return {
-      content: [{
-        type: "text",
-        text: JSON.stringify(results, null, 2),
-      }],
+      anyOf: [
+        { type: "string" },
+        { type: "array", items: { type: "string" } }
+      ],
+      description: `Restrict results to one or more categories. Available: ${available.join(", ") || "none"}`
     };
   }
 
-  private async searchExamples(args: any) {
-    const { query, limit } = SearchQuerySchema.parse(args);
-    const results = this.searchDB?.searchExamples(query, limit);
-    
+  /**
+   * Run a tool by name; shared by MCP clients and the command line
+   */
+  async callTool(name: string, args: Record<string, unknown> | undefined, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<CallToolResult> {
+    const { format } = OutputFormatSchema.parse(args ?? {});
+    if (!this.hostTools && HOST_TOOLS.has(name)) {
+      throw new Error(`Tool ${name} is disabled on this server; start it with --allow-host-tools to enable it`);
+    }
+
+    switch (name) {
+      case "search_knowledge":
+        return toolResult("search_knowledge", await this.searchKnowledge(args), format);
+      case "search_examples":
+        return toolResult("search_examples", await this.searchExamples(args), format);
+      case "search":
+        return toolResult("search", await this.rankedSearch(args), format);
+      case "get_knowledge":
+        return toolResult("get_knowledge", await this.getKnowledge(args), format);
+      case "get_example":
+        return toolResult("get_example", await this.getExample(args), format);
+      case "related":
+        return toolResult("related", await this.getRelated(args), format);
+      case "lookup_api":
+        return toolResult("lookup_api", await this.lookupApi(args), format);
+      case "add_knowledge":
+        return toolResult("add_knowledge", await this.addKnowledge(args), format);
+      case "add_example":
+        return toolResult("add_example", await this.addExample(args), format);
+      case "expand_query":
+        return toolResult("expand_query", await this.expandQuery(args), format);
+      case "list_packs":
+        return toolResult("list_packs", await this.listPacks(), format);
+      case "enable_pack":
+        return toolResult("enable_pack", await this.togglePack(args, true), format);
+      case "disable_pack":
+        return toolResult("disable_pack", await this.togglePack(args, false), format);
+      case "generate_with_context":
+        return toolResult("generate_with_context", await this.generateWithContext(args), format);
+      case "audit_with_rules":
+        return toolResult("audit_with_rules", await this.auditWithRules(args), format);
+      case "audit_project":
+        return toolResult("audit_project", await this.auditProject(args, extra), format);
+      case "migrate_component":
+        return toolResult("migrate_component", await this.migrateComponent(args), format);
+      case "explain_concept":
+        return toolResult("explain_concept", await this.explainConcept(args), format);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async searchKnowledge(args: any): Promise<ToolOutput<"search_knowledge">> {
+    const { query, limit, category, mode, offset, cursor } = SearchQuerySchema.parse(args);
+    return this.searchDB.searchKnowledge(query, limit, { category, mode, offset, cursor });
+  }
+
+  private async searchExamples(args: any): Promise<ToolOutput<"search_examples">> {
+    const { query, limit, category, mode, offset, cursor, verified_only } = SearchExamplesSchema.parse(args);
+    return this.searchDB.searchExamples(query, limit, { category, mode, offset, cursor, verifiedOnly: verified_only });
+  }
+
+  private async rankedSearch(args: any): Promise<ToolOutput<"search">> {
+    const { query, type, weights, limit, category, offset, cursor, explain } = RankedSearchSchema.parse(args);
+    return this.searchDB.searchRanked(query, type, limit, { weights, category, offset, cursor, explain });
+  }
+
+  private async addKnowledge(args: any): Promise<ToolOutput<"add_knowledge">> {
+    const { question, answer, level, related, category } = AddKnowledgeSchema.parse(args);
+    const replaced = this.searchDB.findKnowledge(question) !== null;
+    const location = appendOverlayEntry(this.overlayDir, "knowledge", category, { question, answer, ...(level && { level }), ...(related && { related }) });
+    this.reindex();
+
     return {
-      content: [{
-        type: "text",
-        text: JSON.stringify(results, null, 2),
-      }],
+      added: this.searchDB.findKnowledge(question),
+      file: location.file,
+      line: location.line,
+      replaced,
     };
   }
 
-    private async generateWithContext(args: any) {
-    const { description, features, complexity } = GenerateComponentSchema.parse(args);
-    
-    // Search for relevant patterns
-    const patternResults = this.searchDB?.searchExamples(description, 3);
-    const knowledgeResults = this.searchDB?.searchKnowledge(description, 2);
+  private async addExample(args: any): Promise<ToolOutput<"add_example">> {
+    const { instruction, input, output, related, category } = AddExampleSchema.parse(args);
+    const replaced = this.searchDB.findExample(instruction) !== null;
+    const location = appendOverlayEntry(this.overlayDir, "examples", category, { instruction, input, output, ...(related && { related }) });
+    this.reindex();
 
     return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            request: { description, features, complexity },
-            relevant_patterns: patternResults?.results?.map(r => ({
-              instruction: r.instruction,
-              output: r.output,
-              relevance: r.relevance_score,
-            })),
-            relevant_knowledge: knowledgeResults?.results?.map(r => ({
-              question: r.question,
-              answer: r.answer,
-              relevance: r.relevance_score,
-            })),
-            generation_guidance: {
-              use_runes: true,
-              prefer_snippets_over_slots: true,
-              include_typescript: true,
-              focus_accessibility: true,
-              modern_patterns_only: true,
-            },
-          }, null, 2),
-        },
-      ],
+      added: this.searchDB.findExample(instruction),
+      file: location.file,
+      line: location.line,
+      replaced,
+    };
+  }
+
+  private async expandQuery(args: any): Promise<ToolOutput<"expand_query">> {
+    const { query, type } = ExpandQuerySchema.parse(args);
+    const expansion = this.searchDB.explainQuery(query, type);
+
+    return expansion;
+  }
+
+  private describePacks() {
+    const counts = this.searchDB.getPackCounts();
+    return discoverPacks().map(({ manifest, dir, source, enabled }) => ({
+      name: manifest.name,
+      version: manifest.version,
+      description: manifest.description ?? null,
+      categories: manifest.categories ?? [],
+      enabled,
+      source,
+      dir,
+      indexed: counts[manifest.name] ?? { knowledge: 0, examples: 0 },
+    }));
+  }
+
+  private async listPacks(): Promise<ToolOutput<"list_packs">> {
+    return { packs: this.describePacks() };
+  }
+
+  private async togglePack(args: any, enabled: boolean): Promise<ToolOutput<"enable_pack">> {
+    const { name } = PackNameSchema.parse(args);
+    const pack = discoverPacks().find(pack => pack.manifest.name === name);
+    if (!pack) {
+      throw new Error(`Knowledge pack not found: ${name}`);
+    }
+    if (enabled) {
+      const errors = findSchemaErrors(packFolder(pack));
+      if (errors.length > 0) {
+        throw new Error(`Knowledge pack "${name}" has ${errors.length} invalid entr${errors.length === 1 ? "y" : "ies"} and was not enabled:\n${errors.slice(0, 10).join("\n")}`);
+      }
+    }
+
+    setPackEnabled(name, enabled);
+    this.reindex();
+
+    return this.describePacks().find(pack => pack.name === name)!;
+  }
+
+  private async getKnowledge(args: any): Promise<ToolOutput<"get_knowledge">> {
+    const { id } = GetEntrySchema.parse(args);
+    const entry = this.searchDB.getKnowledge(id);
+    if (!entry) {
+      throw new Error(`Knowledge entry not found: ${id}`);
+    }
+
+    return entry;
+  }
+
+  private async getExample(args: any): Promise<ToolOutput<"get_example">> {
+    const { id } = GetEntrySchema.parse(args);
+    const entry = this.searchDB.getExample(id);
+    if (!entry) {
+      throw new Error(`Example not found: ${id}`);
+    }
+
+    return entry;
+  }
+
+  private async getRelated(args: any): Promise<ToolOutput<"related">> {
+    const { type, id, limit } = RelatedSchema.parse(args);
+    const related = this.searchDB.getRelated(type, id, limit);
+    if (!related) {
+      throw new Error(`${type === "knowledge" ? "Knowledge entry" : "Example"} not found: ${id}`);
+    }
+
+    return related;
+  }
+
+  private async lookupApi(args: any): Promise<ToolOutput<"lookup_api">> {
+    const { name, limit } = LookupApiSchema.parse(args);
+    const result = this.searchDB.lookupApi(name, limit);
+    if (!result.found) {
+      const hint = result.suggestions.length > 0 ? `. Did you mean: ${result.suggestions.join(", ")}?` : "";
+      throw new Error(`Unknown API symbol: ${name}${hint}`);
+    }
+
+    const { found, ...reference } = result;
+    return { query: name, ...reference };
+  }
+
+
+  private async generateWithContext(args: any): Promise<ToolOutput<"generate_with_context">> {
+    const { description, features = [], complexity } = GenerateComponentSchema.parse(args);
+    const level = DIFFICULTY_LEVELS[COMPLEXITY_LEVELS.indexOf(complexity)];
+
+    // One retrieval pass for the description and one per feature, so every feature is covered
+    const passes = <T>(search: (query: string) => T[]) => [
+      { results: search(description), reason: (rank: number) => `#${rank + 1} match for the description` },
+      ...features.map(feature => ({
+        results: search(feature),
+        reason: (rank: number) => `covers feature "${feature}" (#${rank + 1} match)`,
+        required: true,
+      })),
+    ];
+
+    const patterns = selectFromPasses(
+      passes(query => this.searchDB.searchExamples(query, GENERATE_CANDIDATES).results),
+      COMPLEXITY_LEVELS,
+      complexity,
+      result => result.complexity,
+      GENERATE_PATTERN_COUNT[complexity],
+    );
+    const knowledge = selectFromPasses(
+      passes(query => this.searchDB.searchKnowledge(query, GENERATE_CANDIDATES).results),
+      DIFFICULTY_LEVELS,
+      level,
+      result => result.level,
+      GENERATE_KNOWLEDGE_COUNT[complexity],
+    );
+
+    return {
+      request: { description, features, complexity },
+      relevant_patterns: patterns.map(({ item, reasons }) => ({
+        id: item.id,
+        instruction: item.instruction,
+        output: item.output,
+        complexity: item.complexity,
+        relevance: item.relevance_score,
+        reason: [...reasons, gradeReason(`${item.complexity} code`, item.complexity === complexity, `${complexity} complexity`)].join("; "),
+      })),
+      relevant_knowledge: knowledge.map(({ item, reasons }) => ({
+        id: item.id,
+        question: item.question,
+        answer: item.answer,
+        level: item.level,
+        relevance: item.relevance_score,
+        reason: [...reasons, gradeReason(`${item.level} entry`, item.level === level, `${level} level`)].join("; "),
+      })),
+      generation_guidance: {
+        use_runes: true,
+        prefer_snippets_over_slots: true,
+        include_typescript: true,
+        focus_accessibility: true,
+        modern_patterns_only: true,
+      },
     };
   }
 
-  private async auditWithRules(args: any) {
-    const { code, focus } = AuditCodeSchema.parse(args);
+  private async auditWithRules(args: any): Promise<ToolOutput<"audit_with_rules">> {
+    const { code, focus, filename } = AuditCodeSchema.parse(args);
     
     // Find relevant best practices
     const focusQueries = {
@@ -429,63 +1100,175 @@ class Svelte5MCPServer {
       all: "best practices performance accessibility patterns",
     };
 
-    const relevantKnowledge = this.searchDB?.searchKnowledge(focusQueries[focus], 4);;
+    const relevantKnowledge = this.searchDB.searchKnowledge(focusQueries[focus], 4);
+    const audit = auditSvelteSource(code, { filename, focus });
+
+    // Link each finding to the knowledge entries that explain the fix
+    const referenceCache = new Map<string, { id: number; question: string }[]>();
+    const findReferences = (query: string) => {
+      if (!referenceCache.has(query)) {
+        const matches = this.searchDB.searchKnowledge(query, 2);
+        referenceCache.set(query, matches?.results.map(r => ({ id: r.id, question: r.question })) ?? []);
+      }
+      return referenceCache.get(query)!;
+    };
 
     return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            code_audit: {
-              focus_area: focus,
-              code_length: code.length,
-              relevant_guidelines: relevantKnowledge?.results.map(r => ({
-                guideline: r.question,
-                explanation: r.answer,
-                relevance: r.relevance_score,
-              })),
-              audit_checklist: {
-                uses_runes: code.includes("$state") || code.includes("$derived") || code.includes("$effect"),
-                uses_modern_events: code.includes("onclick") && !code.includes("on:click"),
-                uses_snippets: code.includes("{#snippet") || code.includes("{@render"),
-                has_typescript: code.includes("lang=\"ts\"") || code.includes(": "),
-                accessibility_attributes: code.includes("aria-") || code.includes("role="),
-              },
-            },
-          }, null, 2),
+      code_audit: {
+        focus_area: focus,
+        filename: audit.filename,
+        kind: audit.kind,
+        mode: audit.mode,
+        compiled: audit.compiled,
+        code_length: code.length,
+        summary: {
+          errors: audit.findings.filter(f => f.severity === "error").length,
+          warnings: audit.findings.filter(f => f.severity === "warning").length,
+          info: audit.findings.filter(f => f.severity === "info").length,
         },
-      ],
+        findings: audit.findings.map(({ knowledge_query, ...finding }) => ({
+          ...finding,
+          references: findReferences(knowledge_query),
+        })),
+        relevant_guidelines: relevantKnowledge?.results.map(r => ({
+          guideline: r.question,
+          explanation: r.answer,
+          relevance: r.relevance_score,
+        })),
+        audit_checklist: audit.checklist,
+      },
+    };
+  }
+
+  private async auditProject(args: any, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<ToolOutput<"audit_project">> {
+    const { path, focus, worst_files, max_files } = AuditProjectSchema.parse(args);
+    const progressToken = extra?._meta?.progressToken;
+
+    const summary = await auditProject(path, {
+      focus,
+      worstFilesLimit: worst_files,
+      maxFiles: max_files,
+      signal: extra?.signal,
+      // Stream progress to clients that asked for it with a progress token
+      onProgress: !extra || progressToken === undefined ? undefined : async ({ phase, processed, total, file }) => {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: processed,
+            ...(total !== undefined ? { total } : {}),
+            message: phase === "discovering"
+              ? `Discovered ${processed} Svelte files`
+              : file ? `Auditing ${file}` : `Audited ${processed} files`,
+          },
+        });
+      },
+    });
+
+    return { project_audit: summary };
+  }
+
+  private async migrateComponent(args: any): Promise<ToolOutput<"migrate_component">> {
+    const { code, filename } = MigrateComponentSchema.parse(args);
+    const migration = await migrateSvelteSource(code, { filename });
+
+    // Cite the migration synonym group and the knowledge entries behind each change
+    const migrateSynonyms = this.searchDB.getSynonyms("migrate") ?? [];
+    const referenceCache = new Map<string, { id: number; question: string }[]>();
+    const findReferences = (query: string) => {
+      if (!referenceCache.has(query)) {
+        const matches = this.searchDB.searchKnowledge(query, 2);
+        referenceCache.set(query, matches?.results.map(r => ({ id: r.id, question: r.question })) ?? []);
+      }
+      return referenceCache.get(query)!;
+    };
+
+    return {
+      migration: {
+        filename: migration.filename,
+        changed: migration.changed,
+        synonym_group: { term: "migrate", synonyms: migrateSynonyms },
+        changes: migration.changes.map(({ knowledge_query, ...change }) => ({
+          ...change,
+          citations: {
+            synonym_group: "migrate",
+            knowledge: findReferences(knowledge_query),
+          },
+        })),
+        flagged: migration.flagged.map(({ knowledge_query, ...flag }) => ({
+          ...flag,
+          citations: {
+            synonym_group: "migrate",
+            knowledge: findReferences(knowledge_query),
+          },
+        })),
+        code: migration.code,
+      },
     };
   }
 
-  private async explainConcept(args: any) {
+  private async explainConcept(args: any): Promise<ToolOutput<"explain_concept">> {
     const { concept, detail_level } = ExplainConceptSchema.parse(args);
-    
-    const conceptResults = this.searchDB?.searchKnowledge(concept, 3);
-    const exampleResults = this.searchDB?.searchExamples(concept, 2);
+    const complexity = COMPLEXITY_LEVELS[DIFFICULTY_LEVELS.indexOf(detail_level)];
+    const reason = (rank: number) => `#${rank + 1} match for "${concept}"`;
+
+    const explanations = selectFromPasses(
+      [{ results: this.searchDB.searchKnowledge(concept, EXPLAIN_CANDIDATES, { maxLength: EXPLANATION_LENGTH[detail_level] }).results, reason }],
+      DIFFICULTY_LEVELS,
+      detail_level,
+      result => result.level,
+      EXPLANATION_COUNT,
+    );
+
+    // Examples linked to the chosen explanations come first, e.g. the ones using the `$derived.by` an answer is about
+    type ExampleCandidate = Pick<ToolOutput<"get_example">, "id" | "input" | "output" | "complexity"> & { relevance_score: number };
+    const links = new Map<number, { explanation: number; shared: string[]; example: ExampleCandidate }>();
+    for (const { item } of explanations) {
+      for (const ref of item.related) {
+        const example = links.has(ref.id) ? null : this.searchDB.getExample(ref.id);
+        if (example) links.set(ref.id, { explanation: item.id, shared: ref.shared, example: { ...example, relevance_score: ref.score } });
+      }
+    }
+    const linked = [...links.values()];
+    const examplePasses: RetrievalPass<ExampleCandidate>[] = [
+      {
+        results: linked.map(link => link.example),
+        reason: rank => `linked to explanation #${linked[rank].explanation}${linked[rank].shared.length > 0 ? ` via ${linked[rank].shared.slice(0, 2).join(", ")}` : ""}`,
+      },
+      { results: this.searchDB.searchExamples(concept, EXPLAIN_CANDIDATES, { maxLength: EXPLANATION_LENGTH[detail_level] }).results, reason },
+    ];
+    const examples = selectFromPasses(
+      examplePasses,
+      COMPLEXITY_LEVELS,
+      complexity,
+      result => result.complexity,
+      EXPLAIN_EXAMPLE_COUNT[detail_level],
+    );
+
+    // Foundations first: entries build up from the simplest level picked
+    explanations.sort((a, b) => DIFFICULTY_LEVELS.indexOf(a.item.level) - DIFFICULTY_LEVELS.indexOf(b.item.level));
 
     return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            concept_explanation: {
-              concept,
-              detail_level,
-              explanations: conceptResults?.results?.map(item => ({
-                question: item.question,
-                answer: item.answer,
-                relevance: item.relevance_score,
-              })),
-              code_examples: exampleResults?.results?.map(item => ({
-                scenario: item.input,
-                implementation: item.output,
-                relevance: item.relevance_score,
-              })),
-            },
-          }, null, 2),
-        },
-      ],
+      concept_explanation: {
+        concept,
+        detail_level,
+        explanations: explanations.map(({ item, reasons }) => ({
+          id: item.id,
+          question: item.question,
+          answer: item.answer,
+          level: item.level,
+          relevance: item.relevance_score,
+          reason: [...reasons, gradeReason(`${item.level} entry`, item.level === detail_level, `${detail_level} detail level`)].join("; "),
+        })),
+        code_examples: examples.map(({ item, reasons }) => ({
+          id: item.id,
+          scenario: item.input,
+          implementation: item.output,
+          complexity: item.complexity,
+          relevance: item.relevance_score,
+          reason: [...reasons, gradeReason(`${item.complexity} code`, item.complexity === complexity, `${detail_level} detail level`)].join("; "),
+        })),
+      },
     };
   }
 
@@ -617,10 +1400,62 @@ Focus on modern Svelte 5 approaches using runes, snippets, and enhanced reactivi
   }
 
   async run() {
+    const server = this.createServer();
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await server.connect(transport);
+    logger.attach(server);
+    server.onclose = () => logger.detach(server);
+  }
+
+  async runHttp(options: { port: number; host: string; token?: string }) {
+    await startHttpServer({
+      ...options,
+      createMcpServer: () => this.createServer(),
+      health: () => ({ database: this.searchDB.getStats() }),
+    });
   }
 }
 
-const server = new Svelte5MCPServer();
-server.run().catch(console.error);
\ No newline at end of file
+// --http / --port serve the same tools over Streamable HTTP (with SSE fallback)
+const portArg = getFlagValue(args, '--port');
+const useHttp = hasFlag(args, '--http') || portArg !== undefined;
+
+if (command !== undefined) {
+  runCommand(command, commandArgs, {
+    args,
+    getDataFolders: () => getDataFolders(),
+    createToolRunner: () => new Svelte5MCPServer(),
+  }).then(
+    (code) => process.exit(code),
+    (error) => {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    },
+  );
+} else if (useHttp) {
+  const port = typeof portArg === 'string' ? Number(portArg) : Number(process.env.SVELTE5_MCP_PORT || DEFAULT_HTTP_PORT);
+  const hostArg = getFlagValue(args, '--host');
+  const tokenArg = getFlagValue(args, '--token');
+
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    logger.error(`Invalid --port "${portArg}"`);
+    process.exit(1);
+  }
+
+  // Remote clients get no access to the host's files unless the operator opts in
+  const server = new Svelte5MCPServer({ readonly: true, hostTools: hasFlag(args, '--allow-host-tools') });
+  server.runHttp({
+    port,
+    host: typeof hostArg === 'string' ? hostArg : process.env.SVELTE5_MCP_HOST || '127.0.0.1',
+    token: typeof tokenArg === 'string' ? tokenArg : process.env.SVELTE5_MCP_AUTH_TOKEN || undefined,
+  }).catch((error) => {
+    logger.error('Failed to start HTTP server', error);
+    process.exit(1);
+  });
+} else {
+  const server = new Svelte5MCPServer();
+  server.run().catch((error) => {
+    logger.error('Failed to start server', error);
+    process.exit(1);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,260 @@
+import type { ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+
+import type { Svelte5SearchDB } from "./Svelte5SearchDB.js";
+import { decodeCursor, encodeCursor } from "./utils/pagination.js";
+
+/**
+ * MCP resources served from the search database
+ *
+ *   svelte5://knowledge                       index of all knowledge entries
+ *   svelte5://knowledge/{id}                  one entry
+ *   svelte5://knowledge/category/{category}   every entry in a category
+ *   svelte5://examples, svelte5://examples/{id}, svelte5://examples/category/{category}
+ *
+ * Lists are paginated with a `?cursor=` query parameter. Every read returns the
+ * content twice: rendered as text/markdown and as application/json.
+ */
+
+type ResourceKind = "knowledge" | "examples";
+
+const LIST_PAGE_SIZE = 100;
+const INDEX_PAGE_SIZE = 100;
+const CATEGORY_PAGE_SIZE = 20;
+
+const KIND_LABELS: Record<ResourceKind, string> = {
+  knowledge: "Svelte 5 Knowledge Base",
+  examples: "Svelte 5 Code Examples",
+};
+
+type KnowledgeEntry = NonNullable<ReturnType<Svelte5SearchDB["getKnowledge"]>>;
+type ExampleEntry = NonNullable<ReturnType<Svelte5SearchDB["getExample"]>>;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "svelte5://knowledge/{id}",
+    name: "Svelte 5 knowledge entry",
+    description: "A single Q&A entry from the knowledge base",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "svelte5://knowledge/category/{category}",
+    name: "Svelte 5 knowledge category",
+    description: "All knowledge entries in a category (paginated with ?cursor=)",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "svelte5://examples/{id}",
+    name: "Svelte 5 code example",
+    description: "A single code example",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "svelte5://examples/category/{category}",
+    name: "Svelte 5 example category",
+    description: "All code examples in a category (paginated with ?cursor=)",
+    mimeType: "text/markdown",
+  },
+];
+
+function entryUri(kind: ResourceKind, id: number) {
+  return `svelte5://${kind}/${id}`;
+}
+
+function categoryUri(kind: ResourceKind, category: string) {
+  return `svelte5://${kind}/category/${encodeURIComponent(category)}`;
+}
+
+function withCursor(uri: string, offset: number) {
+  return `${uri}?cursor=${encodeCursor(offset)}`;
+}
+
+function sourceLine(entry: KnowledgeEntry | ExampleEntry) {
+  const parts = [
+    entry.category && `Category: ${entry.category}`,
+    entry.source && `Source: ${entry.source.file}${entry.source.line ? `:${entry.source.line}` : ""}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `_${parts.join(" · ")}_\n\n` : "";
+}
+
+function renderKnowledge(entry: KnowledgeEntry, heading = "#") {
+  return `${heading} ${entry.question}\n\n${sourceLine(entry)}${entry.answer.trim()}\n`;
+}
+
+function renderExample(entry: ExampleEntry, heading = "#") {
+  const input = entry.input.trim() && entry.input.trim() !== entry.instruction.trim() ? `${entry.input.trim()}\n\n` : "";
+  const code = /^\s*```/.test(entry.output) ? entry.output.trim() : `\`\`\`svelte\n${entry.output.trim()}\n\`\`\``;
+  return `${heading} ${entry.instruction}\n\n${sourceLine(entry)}${input}${code}\n`;
+}
+
+function nextPageNote(nextUri: string | null) {
+  return nextUri ? `\n---\n\nMore entries: ${nextUri}\n` : "";
+}
+
+function result(uri: string, markdown: string, json: unknown): ReadResourceResult {
+  return {
+    contents: [
+      { uri, mimeType: "text/markdown", text: markdown },
+      { uri, mimeType: "application/json", text: JSON.stringify(json, null, 2) },
+    ],
+  };
+}
+
+/**
+ * Every resource: the two indexes, one per category and one per entry, paginated
+ */
+export function listResources(db: Svelte5SearchDB, cursor?: string): { resources: Resource[]; nextCursor?: string } {
+  const categories = db.getCategories();
+  const all: Resource[] = [];
+
+  for (const kind of ["knowledge", "examples"] as const) {
+    all.push({
+      uri: `svelte5://${kind}`,
+      mimeType: "text/markdown",
+      name: KIND_LABELS[kind],
+      description: kind === "knowledge"
+        ? "Index of the curated Q&A knowledge base for Svelte 5 concepts, features, and best practices"
+        : "Index of the Svelte 5 code patterns and component examples",
+    });
+    for (const [category, count] of Object.entries(categories[kind])) {
+      all.push({
+        uri: categoryUri(kind, category),
+        mimeType: "text/markdown",
+        name: `${KIND_LABELS[kind]}: ${category}`,
+        description: `${count} ${kind === "knowledge" ? "entries" : "examples"} in the ${category} category`,
+      });
+    }
+  }
+
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const resources = all.slice(offset, offset + LIST_PAGE_SIZE);
+
+  // Entries follow the fixed resources; fetch only the slice this page needs
+  let entryOffset = Math.max(0, offset - all.length);
+  let total = all.length;
+  for (const kind of ["knowledge", "examples"] as const) {
+    const room = LIST_PAGE_SIZE - resources.length;
+    const page = kind === "knowledge"
+      ? db.listKnowledge({ offset: entryOffset, limit: room })
+      : db.listExamples({ offset: entryOffset, limit: room });
+    total += page.total;
+
+    for (const entry of page.entries) {
+      const title = "question" in entry ? entry.question : entry.instruction;
+      resources.push({
+        uri: entryUri(kind, entry.id),
+        mimeType: "text/markdown",
+        name: title.length > 100 ? `${title.slice(0, 97)}...` : title,
+        description: entry.category ? `${KIND_LABELS[kind]} · ${entry.category}` : KIND_LABELS[kind],
+      });
+    }
+    entryOffset = Math.max(0, entryOffset - page.total);
+  }
+
+  const nextOffset = offset + LIST_PAGE_SIZE;
+  return nextOffset < total ? { resources, nextCursor: encodeCursor(nextOffset) } : { resources };
+}
+
+/**
+ * Read any svelte5:// resource
+ */
+export function readResource(db: Svelte5SearchDB, uri: string): ReadResourceResult {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const kind = url.host;
+  if (url.protocol !== "svelte5:" || (kind !== "knowledge" && kind !== "examples")) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const cursor = url.searchParams.get("cursor");
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (segments.length === 0) {
+    return readIndex(db, kind, uri, offset);
+  }
+  if (segments.length === 1 && /^\d+$/.test(segments[0])) {
+    return readEntry(db, kind, uri, Number(segments[0]));
+  }
+  if (segments.length === 2 && segments[0] === "category") {
+    return readCategory(db, kind, uri, segments[1], offset);
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+function readEntry(db: Svelte5SearchDB, kind: ResourceKind, uri: string, id: number): ReadResourceResult {
+  if (kind === "knowledge") {
+    const entry = db.getKnowledge(id);
+    if (!entry) throw new Error(`Knowledge entry not found: ${id}`);
+    return result(uri, renderKnowledge(entry), entry);
+  }
+
+  const entry = db.getExample(id);
+  if (!entry) throw new Error(`Example not found: ${id}`);
+  return result(uri, renderExample(entry), entry);
+}
+
+function readCategory(db: Svelte5SearchDB, kind: ResourceKind, uri: string, category: string, offset: number): ReadResourceResult {
+  const page = kind === "knowledge"
+    ? db.listKnowledge({ category, offset, limit: CATEGORY_PAGE_SIZE })
+    : db.listExamples({ category, offset, limit: CATEGORY_PAGE_SIZE });
+  if (page.total === 0) {
+    throw new Error(`Unknown category: ${category}`);
+  }
+
+  const nextOffset = offset + CATEGORY_PAGE_SIZE;
+  const nextUri = nextOffset < page.total ? withCursor(categoryUri(kind, category), nextOffset) : null;
+  const sections = page.entries.map(entry =>
+    "question" in entry ? renderKnowledge(entry, "##") : renderExample(entry as ExampleEntry, "##")
+  );
+
+  const markdown = `# ${KIND_LABELS[kind]}: ${category}\n\n`
+    + `Entries ${offset + 1}–${offset + page.entries.length} of ${page.total}\n\n`
+    + sections.join("\n")
+    + nextPageNote(nextUri);
+
+  return result(uri, markdown, {
+    category,
+    total: page.total,
+    offset,
+    next_uri: nextUri,
+    entries: page.entries,
+  });
+}
+
+function readIndex(db: Svelte5SearchDB, kind: ResourceKind, uri: string, offset: number): ReadResourceResult {
+  const page = kind === "knowledge"
+    ? db.listKnowledge({ offset, limit: INDEX_PAGE_SIZE })
+    : db.listExamples({ offset, limit: INDEX_PAGE_SIZE });
+  const categories = db.getCategories()[kind];
+
+  const nextOffset = offset + INDEX_PAGE_SIZE;
+  const nextUri = nextOffset < page.total ? withCursor(`svelte5://${kind}`, nextOffset) : null;
+  const entries = page.entries.map(entry => ({
+    id: entry.id,
+    uri: entryUri(kind, entry.id),
+    title: "question" in entry ? entry.question : entry.instruction,
+    category: entry.category,
+  }));
+
+  const markdown = `# ${KIND_LABELS[kind]}\n\n`
+    + `## Categories\n\n`
+    + Object.entries(categories).map(([category, count]) => `- [${category}](${categoryUri(kind, category)}) (${count})`).join("\n")
+    + `\n\n## Entries ${offset + 1}–${offset + entries.length} of ${page.total}\n\n`
+    + entries.map(entry => `- [${entry.title}](${entry.uri})`).join("\n")
+    + "\n"
+    + nextPageNote(nextUri);
+
+  return result(uri, markdown, {
+    total: page.total,
+    offset,
+    next_uri: nextUri,
+    categories: Object.entries(categories).map(([category, count]) => ({ category, count, uri: categoryUri(kind, category) })),
+    entries,
+  });
+}
@@ -0,0 +1,629 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * Structured tool results
+ *
+ * Every tool declares an `outputSchema` derived from the zod schemas below and
+ * returns `structuredContent` matching it. The text block renders the same
+ * result as concise markdown for models that read the text, or as the JSON
+ * itself when the call passes `format: "json"`.
+ */
+
+export const OutputFormatSchema = z.object({
+  format: z.enum(["json", "markdown"]).optional().default("markdown"),
+});
+
+export type OutputFormat = z.infer<typeof OutputFormatSchema>["format"];
+
+/** JSON schema of the `format` argument every tool accepts */
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["json", "markdown"],
+  default: "markdown",
+  description: "Text rendering of the result: concise markdown, or the structured result as JSON",
+};
+
+const SourceSchema = z.object({
+  file: z.string(),
+  line: z.number().nullable(),
+}).nullable();
+
+const EntryMetaShape = {
+  id: z.number(),
+  origin: z.enum(["bundled", "local", "pack"]),
+  pack: z.string().nullable(),
+  category: z.string().nullable(),
+  source: SourceSchema,
+};
+
+const VerificationSchema = z.object({
+  kind: z.enum(["component", "module", "fragment"]),
+  status: z.enum(["passed", "failed"]),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+}).nullable();
+
+const RelatedEntrySchema = z.object({
+  type: z.enum(["knowledge", "examples"]),
+  id: z.number(),
+  title: z.string(),
+  category: z.string().nullable(),
+  score: z.number(),
+  source: z.enum(["explicit", "mentions"]),
+  shared: z.array(z.string()),
+});
+
+const SearchPageShape = {
+  query: z.string(),
+  did_you_mean: z.string().optional(),
+  mode: z.enum(["keyword", "semantic", "hybrid"]),
+  expanded_query: z.string(),
+  total_matches: z.number(),
+  total_results: z.number(),
+  offset: z.number(),
+  next_offset: z.number().nullable(),
+  next_cursor: z.string().nullable(),
+};
+
+const SearchHitShape = {
+  truncated: z.boolean(),
+  relevance_score: z.number(),
+  matched_by: z.array(z.enum(["keyword", "semantic"])),
+  related: z.array(RelatedEntrySchema),
+};
+
+const LevelSchema = z.enum(["basic", "intermediate", "advanced"]);
+const ComplexitySchema = z.enum(["simple", "moderate", "complex"]);
+
+const KnowledgeEntrySchema = z.object({
+  ...EntryMetaShape,
+  question: z.string(),
+  answer: z.string(),
+  level: LevelSchema,
+  related_keys: z.array(z.string()),
+  version: z.number(),
+  updated_at: z.string(),
+});
+
+const ExampleEntrySchema = z.object({
+  ...EntryMetaShape,
+  instruction: z.string(),
+  input: z.string(),
+  output: z.string(),
+  complexity: ComplexitySchema,
+  verification: VerificationSchema,
+  related_keys: z.array(z.string()),
+  version: z.number(),
+  updated_at: z.string(),
+});
+
+const KnowledgeReferenceSchema = z.object({
+  id: z.number(),
+  question: z.string(),
+});
+
+const AddedEntryShape = {
+  file: z.string(),
+  line: z.number(),
+  replaced: z.boolean(),
+};
+
+const PackSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  description: z.string().nullable(),
+  categories: z.array(z.string()),
+  enabled: z.boolean(),
+  source: z.enum(["node_modules", "directory"]),
+  dir: z.string(),
+  indexed: z.object({ knowledge: z.number(), examples: z.number() }),
+});
+
+const SeveritySchema = z.enum(["error", "warning", "info"]);
+
+const MigrationCitationsSchema = z.object({
+  synonym_group: z.string(),
+  knowledge: z.array(KnowledgeReferenceSchema),
+});
+
+export const TOOL_OUTPUT_SCHEMAS = {
+  search_knowledge: z.object({
+    ...SearchPageShape,
+    results: z.array(z.object({
+      ...EntryMetaShape,
+      question: z.string(),
+      answer: z.string(),
+      level: LevelSchema,
+      highlighted_question: z.string(),
+      highlighted_answer: z.string(),
+      matched_passage: z.object({
+        position: z.number(),
+        kind: z.enum(["prose", "code"]),
+        language: z.string().nullable(),
+      }).nullable(),
+      ...SearchHitShape,
+    })),
+  }),
+  search_examples: z.object({
+    ...SearchPageShape,
+    results: z.array(z.object({
+      ...EntryMetaShape,
+      instruction: z.string(),
+      input: z.string(),
+      output: z.string(),
+      highlighted_instruction: z.string(),
+      highlighted_input: z.string(),
+      highlighted_output: z.string(),
+      complexity: ComplexitySchema,
+      verification: VerificationSchema,
+      ...SearchHitShape,
+    })),
+  }),
+  search: z.object(SearchPageShape).omit({ mode: true }).extend({
+    type: z.enum(["knowledge", "examples"]),
+    weights: z.record(z.number()),
+    results: z.array(z.object({
+      ...EntryMetaShape,
+      title: z.string(),
+      text: z.string(),
+      truncated: z.boolean(),
+      score: z.number(),
+      explanation: z.object({
+        matched_terms: z.array(z.string()),
+        weights: z.record(z.number()),
+        terms: z.array(z.object({
+          term: z.string(),
+          occurrences: z.number(),
+          hits: z.record(z.number()),
+          weighted_frequency: z.number(),
+          contribution: z.number(),
+        })),
+        score: z.number(),
+      }).optional(),
+      related: z.array(RelatedEntrySchema),
+    })),
+  }),
+  related: z.object({
+    type: z.enum(["knowledge", "examples"]),
+    id: z.number(),
+    title: z.string(),
+    related: z.array(RelatedEntrySchema),
+  }),
+  lookup_api: z.object({
+    query: z.string(),
+    symbol: z.object({
+      name: z.string(),
+      kind: z.enum(["rune", "function", "class", "template-tag", "element", "directive"]),
+      module: z.string().nullable(),
+      signature: z.string().nullable(),
+      summary: z.string().nullable(),
+      svelte4: z.array(z.string()),
+    }),
+    total_mentions: z.object({ knowledge: z.number(), examples: z.number() }),
+    entries: z.array(z.object({
+      type: z.enum(["knowledge", "examples"]),
+      id: z.number(),
+      title: z.string(),
+      category: z.string().nullable(),
+      in_title: z.boolean(),
+    })),
+    see_also: z.array(z.string()),
+  }),
+  get_knowledge: KnowledgeEntrySchema,
+  get_example: ExampleEntrySchema,
+  add_knowledge: z.object({ added: KnowledgeEntrySchema.nullable(), ...AddedEntryShape }),
+  add_example: z.object({ added: ExampleEntrySchema.nullable(), ...AddedEntryShape }),
+  expand_query: z.object({
+    query: z.string(),
+    corrected_query: z.string(),
+    did_you_mean: z.string().optional(),
+    words: z.array(z.object({
+      word: z.string(),
+      match: z.enum(["exact", "prefix", "corrected", "unknown"]),
+      term: z.string(),
+    })),
+    synonym_groups: z.array(z.object({
+      term: z.string(),
+      matched: z.string(),
+      synonyms: z.array(z.string()),
+      source: z.enum(["bundled", "pack", "user"]).nullable(),
+    })),
+    fts_query: z.string(),
+  }),
+  list_packs: z.object({ packs: z.array(PackSchema) }),
+  enable_pack: PackSchema,
+  disable_pack: PackSchema,
+  generate_with_context: z.object({
+    request: z.object({
+      description: z.string(),
+      features: z.array(z.string()),
+      complexity: ComplexitySchema,
+    }),
+    relevant_patterns: z.array(z.object({
+      id: z.number(),
+      instruction: z.string(),
+      output: z.string(),
+      complexity: ComplexitySchema,
+      relevance: z.number(),
+      reason: z.string(),
+    })),
+    relevant_knowledge: z.array(z.object({
+      id: z.number(),
+      question: z.string(),
+      answer: z.string(),
+      level: LevelSchema,
+      relevance: z.number(),
+      reason: z.string(),
+    })),
+    generation_guidance: z.record(z.boolean()),
+  }),
+  audit_with_rules: z.object({
+    code_audit: z.object({
+      focus_area: z.enum(["performance", "accessibility", "best-practices", "all"]),
+      filename: z.string(),
+      kind: z.enum(["component", "module"]),
+      mode: z.enum(["runes", "legacy"]),
+      compiled: z.boolean(),
+      code_length: z.number(),
+      summary: z.object({ errors: z.number(), warnings: z.number(), info: z.number() }),
+      findings: z.array(z.object({
+        rule: z.string(),
+        severity: SeveritySchema,
+        category: z.enum(["compiler", "legacy", "a11y", "runes"]),
+        message: z.string(),
+        line: z.number(),
+        column: z.number(),
+        end_line: z.number().optional(),
+        end_column: z.number().optional(),
+        references: z.array(KnowledgeReferenceSchema),
+      })),
+      relevant_guidelines: z.array(z.object({ guideline: z.string(), explanation: z.string(), relevance: z.number() })),
+      audit_checklist: z.object({
+        uses_runes: z.boolean(),
+        uses_modern_events: z.boolean(),
+        uses_snippets: z.boolean(),
+        has_typescript: z.boolean(),
+        accessibility_attributes: z.boolean(),
+      }),
+    }),
+  }),
+  audit_project: z.object({
+    project_audit: z.object({
+      root: z.string(),
+      files_scanned: z.number(),
+      files_with_findings: z.number(),
+      truncated: z.boolean(),
+      totals: z.object({ error: z.number(), warning: z.number(), info: z.number() }),
+      by_rule: z.array(z.object({ rule: z.string(), severity: SeveritySchema, count: z.number(), files: z.number() })),
+      worst_files: z.array(z.object({
+        path: z.string(),
+        kind: z.enum(["component", "module"]),
+        migration_status: z.enum(["runes", "legacy", "neutral"]),
+        compiled: z.boolean(),
+        errors: z.number(),
+        warnings: z.number(),
+        info: z.number(),
+        score: z.number(),
+      })),
+      migration_progress: z.object({
+        runes: z.number(),
+        legacy: z.number(),
+        neutral: z.number(),
+        percent_migrated: z.number(),
+      }),
+      unreadable: z.array(z.object({ path: z.string(), error: z.string() })),
+    }),
+  }),
+  migrate_component: z.object({
+    migration: z.object({
+      filename: z.string(),
+      changed: z.boolean(),
+      synonym_group: z.object({ term: z.string(), synonyms: z.array(z.string()) }),
+      changes: z.array(z.object({
+        kind: z.string(),
+        description: z.string(),
+        original_line: z.number().optional(),
+        citations: MigrationCitationsSchema,
+      })),
+      flagged: z.array(z.object({
+        reason: z.string(),
+        line: z.number().optional(),
+        citations: MigrationCitationsSchema,
+      })),
+      code: z.string(),
+    }),
+  }),
+  explain_concept: z.object({
+    concept_explanation: z.object({
+      concept: z.string(),
+      detail_level: LevelSchema,
+      explanations: z.array(z.object({
+        id: z.number(),
+        question: z.string(),
+        answer: z.string(),
+        level: LevelSchema,
+        relevance: z.number(),
+        reason: z.string(),
+      })),
+      code_examples: z.array(z.object({
+        id: z.number(),
+        scenario: z.string(),
+        implementation: z.string(),
+        complexity: ComplexitySchema,
+        relevance: z.number(),
+        reason: z.string(),
+      })),
+    }),
+  }),
+};
+
+export type ToolName = keyof typeof TOOL_OUTPUT_SCHEMAS;
+export type ToolOutput<N extends ToolName> = z.infer<(typeof TOOL_OUTPUT_SCHEMAS)[N]>;
+
+/**
+ * JSON schema for a tool's `outputSchema`. Only the listed fields are required,
+ * so clients keep validating when a later version adds fields.
+ */
+export function outputJsonSchema(name: ToolName) {
+  const { $schema, ...schema } = zodToJsonSchema(TOOL_OUTPUT_SCHEMAS[name], {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+    removeAdditionalStrategy: "strict",
+  }) as Record<string, unknown>;
+  return schema as { type: "object"; properties?: Record<string, unknown>; required?: string[] };
+}
+
+/**
+ * Add the `format` argument and the output schema to a tool definition
+ */
+export function withStructuredOutput<T extends { name: string; inputSchema: { properties: Record<string, unknown> } }>(tool: T) {
+  return {
+    ...tool,
+    inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, format: FORMAT_PROPERTY } },
+    outputSchema: outputJsonSchema(tool.name as ToolName),
+  };
+}
+
+function location(entry: { source: z.infer<typeof SourceSchema> }) {
+  return entry.source ? `${entry.source.file}${entry.source.line ? `:${entry.source.line}` : ""}` : null;
+}
+
+function metaLine(entry: { id: number; origin: string; pack: string | null; category: string | null; source: z.infer<typeof SourceSchema> }, extra: (string | null | false)[] = []) {
+  const parts = [
+    `#${entry.id}`,
+    entry.category,
+    entry.pack ? `pack ${entry.pack}` : entry.origin !== "bundled" && entry.origin,
+    location(entry),
+    ...extra,
+  ].filter(Boolean);
+  return `_${parts.join(" · ")}_`;
+}
+
+function codeBlock(code: string, language = "svelte") {
+  return /^\s*```/.test(code) ? code.trim() : `\`\`\`${language}\n${code.trim()}\n\`\`\``;
+}
+
+function truncatedNote(truncated: boolean, tool: string) {
+  return truncated ? `\n\n_Truncated; call ${tool} for the full entry._` : "";
+}
+
+function pageNote(output: { total_results: number; total_matches: number; offset: number; next_cursor: string | null }) {
+  const range = output.total_results > 0
+    ? `${output.offset + 1}–${output.offset + output.total_results} of ${output.total_matches}`
+    : `0 of ${output.total_matches}`;
+  return output.next_cursor ? `${range} · next cursor \`${output.next_cursor}\`` : range;
+}
+
+function didYouMean(output: { did_you_mean?: string }) {
+  return output.did_you_mean ? `\n\nDid you mean "${output.did_you_mean}"?` : "";
+}
+
+function renderPack(pack: z.infer<typeof PackSchema>) {
+  return `**${pack.name}** ${pack.version} (${pack.enabled ? "enabled" : "disabled"}, ${pack.source}): `
+    + `${pack.indexed.knowledge} knowledge entries, ${pack.indexed.examples} examples indexed`
+    + (pack.description ? `\n\n${pack.description}` : "");
+}
+
+function renderReferences(references: z.infer<typeof KnowledgeReferenceSchema>[]) {
+  return references.length > 0 ? ` (see ${references.map(ref => `#${ref.id} "${ref.question}"`).join(", ")})` : "";
+}
+
+function renderPassage(passage: { kind: "prose" | "code"; language: string | null }) {
+  return passage.kind === "code" ? `the ${passage.language ? `${passage.language} ` : ""}code block that matched` : "the paragraph that matched";
+}
+
+function renderRelated(related: z.infer<typeof RelatedEntrySchema>[]) {
+  if (related.length === 0) return "";
+  const label = related[0].type === "examples" ? "Related examples" : "Related knowledge";
+  return `\n\n${label}: ${related.map(ref => `#${ref.id} "${ref.title}"${ref.shared.length > 0 ? ` (${ref.shared.slice(0, 3).join(", ")})` : ""}`).join(", ")}`;
+}
+
+function renderWeights(weights: Record<string, number>) {
+  return Object.entries(weights).map(([column, weight]) => `${column} ×${weight}`).join(", ");
+}
+
+function renderScoreExplanation(explanation: NonNullable<ToolOutput<"search">["results"][number]["explanation"]>) {
+  const columns = Object.keys(explanation.weights);
+  const rows = explanation.terms.map(term =>
+    `| ${term.term}${term.occurrences > 1 ? ` (×${term.occurrences})` : ""} | ${columns.map(column => term.hits[column] ?? 0).join(" | ")} | ${term.weighted_frequency} | ${term.contribution.toFixed(2)} |`
+  );
+  return `| Term | ${columns.join(" | ")} | Weighted hits | Contribution |\n|------|${columns.map(() => "---").join("|")}|---|---|\n${rows.join("\n")}\n\n`
+    + `Score ${explanation.score.toFixed(2)} = sum of term contributions; each is BM25 of the term with hits weighted ${renderWeights(explanation.weights)}`;
+}
+
+function renderEntries(items: string[], empty: string) {
+  return items.length > 0 ? items.join("\n\n") : empty;
+}
+
+const MARKDOWN_RENDERERS: { [N in ToolName]: (output: ToolOutput<N>) => string } = {
+  search_knowledge: output =>
+    `# Knowledge results for "${output.query}"\n\n${pageNote(output)}${didYouMean(output)}\n\n`
+    + renderEntries(output.results.map(result =>
+      `## ${result.question}\n\n${metaLine(result, [result.level, result.matched_passage && `excerpt around ${renderPassage(result.matched_passage)}`])}\n\n`
+      + `${result.answer.trim()}${truncatedNote(result.truncated, "get_knowledge")}${renderRelated(result.related)}`
+    ), "No matching knowledge entries."),
+
+  search_examples: output =>
+    `# Examples for "${output.query}"\n\n${pageNote(output)}${didYouMean(output)}\n\n`
+    + renderEntries(output.results.map(result => {
+      const input = result.input.trim() && result.input.trim() !== result.instruction.trim() ? `${result.input.trim()}\n\n` : "";
+      return `## ${result.instruction}\n\n${metaLine(result, [result.complexity, result.verification?.status ?? null])}\n\n${input}${codeBlock(result.output)}`
+        + truncatedNote(result.truncated, "get_example") + renderRelated(result.related);
+    }), "No matching examples."),
+
+  search: output =>
+    `# Ranked ${output.type} results for "${output.query}"\n\n${pageNote(output)} · weights ${renderWeights(output.weights)}${didYouMean(output)}\n\n`
+    + renderEntries(output.results.map(result => {
+      const body = output.type === "examples" ? codeBlock(result.text) : result.text.trim();
+      const tool = output.type === "examples" ? "get_example" : "get_knowledge";
+      return `## ${result.title}\n\n${metaLine(result, [`score ${result.score.toFixed(2)}`])}\n\n${body}${truncatedNote(result.truncated, tool)}`
+        + (result.explanation ? `\n\n${renderScoreExplanation(result.explanation)}` : "") + renderRelated(result.related);
+    }), "No matching entries."),
+
+  related: output => {
+    const tool = output.type === "knowledge" ? "get_example" : "get_knowledge";
+    const items = output.related.map(ref =>
+      `- #${ref.id} ${ref.title}${ref.category ? ` _(${ref.category})_` : ""}: `
+      + (ref.source === "explicit" ? "linked explicitly" : `score ${ref.score.toFixed(2)}`)
+      + (ref.shared.length > 0 ? `, shares ${ref.shared.join(", ")}` : "")
+    );
+    return `# Related to ${output.type === "knowledge" ? "knowledge entry" : "example"} #${output.id}: ${output.title}\n\n`
+      + renderEntries(items.length > 0 ? [`${items.join("\n")}\n\nCall ${tool} for the full entries.`] : [], `No linked ${output.type === "knowledge" ? "examples" : "knowledge entries"}.`);
+  },
+
+  lookup_api: output => {
+    const { symbol, total_mentions: total } = output;
+    const origin = symbol.module ? `${symbol.kind}, from "${symbol.module}"` : symbol.kind;
+    const svelte4 = symbol.svelte4.length > 0
+      ? `Svelte 4 equivalent:\n\n${symbol.svelte4.map(equivalent => `- ${equivalent}`).join("\n")}`
+      : symbol.signature ? "New in Svelte 5." : "";
+    const entries = output.entries.map(entry =>
+      `- ${entry.type === "knowledge" ? "knowledge" : "example"} #${entry.id} ${entry.title}${entry.category ? ` _(${entry.category})_` : ""}${entry.in_title ? " (about it)" : ""}`
+    );
+    return [
+      `# ${symbol.name} (${origin})`,
+      symbol.signature ? codeBlock(symbol.signature, ["rune", "function", "class"].includes(symbol.kind) ? "ts" : "svelte") : "_Not in the reference catalog; mentioned by the entries below._",
+      symbol.summary ?? "",
+      svelte4,
+      `## Mentioned by ${total.knowledge} knowledge ${total.knowledge === 1 ? "entry" : "entries"} and ${total.examples} ${total.examples === 1 ? "example" : "examples"}\n\n`
+        + renderEntries(entries.length > 0 ? [`${entries.join("\n")}\n\nCall get_knowledge or get_example for the full entries.`] : [], "No entries mention it."),
+      output.see_also.length > 0 ? `See also: ${output.see_also.join(", ")}` : "",
+    ].filter(Boolean).join("\n\n");
+  },
+
+  get_knowledge: entry => `# ${entry.question}\n\n${metaLine(entry, [entry.level])}\n\n${entry.answer.trim()}`,
+
+  get_example: entry => {
+    const input = entry.input.trim() && entry.input.trim() !== entry.instruction.trim() ? `${entry.input.trim()}\n\n` : "";
+    const errors = entry.verification?.errors.map(error => `- ${error}`).join("\n");
+    return `# ${entry.instruction}\n\n${metaLine(entry, [entry.complexity, entry.verification?.status ?? null])}\n\n${input}${codeBlock(entry.output)}`
+      + (errors ? `\n\nCompile check errors:\n\n${errors}` : "");
+  },
+
+  add_knowledge: output =>
+    `${output.replaced ? "Replaced" : "Added"} knowledge entry in ${output.file}:${output.line}`
+    + (output.added ? `\n\n# ${output.added.question}\n\n${metaLine(output.added, [output.added.level])}\n\n${output.added.answer.trim()}` : ""),
+
+  add_example: output =>
+    `${output.replaced ? "Replaced" : "Added"} example in ${output.file}:${output.line}`
+    + (output.added ? `\n\n# ${output.added.instruction}\n\n${metaLine(output.added, [output.added.complexity, output.added.verification?.status ?? null])}\n\n${codeBlock(output.added.output)}` : ""),
+
+  expand_query: output => [
+    `# Expansion of "${output.query}"`,
+    output.corrected_query !== output.query ? `Corrected query: "${output.corrected_query}"` : null,
+    output.words.length > 0
+      ? `| Word | Match | Term |\n|------|-------|------|\n${output.words.map(word => `| ${word.word} | ${word.match} | ${word.term} |`).join("\n")}`
+      : null,
+    output.synonym_groups.length > 0
+      ? `Synonym groups:\n\n${output.synonym_groups.map(group =>
+        `- **${group.term}** (matched "${group.matched}"${group.source ? `, ${group.source}` : ""}): ${group.synonyms.join(", ")}`
+      ).join("\n")}`
+      : null,
+    `Full-text query: \`${output.fts_query}\``,
+  ].filter(Boolean).join("\n\n"),
+
+  list_packs: output =>
+    `# Knowledge packs\n\n${renderEntries(output.packs.map(pack => `- ${renderPack(pack).replace("\n\n", " — ")}`), "No knowledge packs installed.")}`,
+
+  enable_pack: renderPack,
+
+  disable_pack: renderPack,
+
+  generate_with_context: output => [
+    `# Context for: ${output.request.description}`,
+    `Complexity: ${output.request.complexity}${output.request.features.length > 0 ? ` · Features: ${output.request.features.join(", ")}` : ""}`,
+    `Guidance: ${Object.entries(output.generation_guidance).filter(([, enabled]) => enabled).map(([rule]) => rule.replace(/_/g, " ")).join(", ")}`,
+    "## Relevant patterns",
+    renderEntries(output.relevant_patterns.map(pattern => `### ${pattern.instruction}\n\n_#${pattern.id} · ${pattern.reason}_\n\n${codeBlock(pattern.output)}`), "None found."),
+    "## Relevant knowledge",
+    renderEntries(output.relevant_knowledge.map(item => `### ${item.question}\n\n_#${item.id} · ${item.reason}_\n\n${item.answer.trim()}`), "None found."),
+  ].join("\n\n"),
+
+  audit_with_rules: ({ code_audit: audit }) => [
+    `# Audit of ${audit.filename}`,
+    `${audit.kind} in ${audit.mode} mode${audit.compiled ? "" : ", does not compile"}: `
+      + `${audit.summary.errors} errors, ${audit.summary.warnings} warnings, ${audit.summary.info} info (focus: ${audit.focus_area})`,
+    audit.findings.length > 0
+      ? audit.findings.map(finding =>
+        `- ${finding.line}:${finding.column} **${finding.severity}** [${finding.rule}] ${finding.message}${renderReferences(finding.references)}`
+      ).join("\n")
+      : "No findings.",
+    `Checklist: ${Object.entries(audit.audit_checklist).map(([check, passed]) => `${passed ? "✓" : "✗"} ${check.replace(/_/g, " ")}`).join(", ")}`,
+  ].join("\n\n"),
+
+  audit_project: ({ project_audit: audit }) => [
+    `# Project audit of ${audit.root}`,
+    `${audit.files_scanned} files scanned${audit.truncated ? " (stopped at max_files)" : ""}, ${audit.files_with_findings} with findings: `
+      + `${audit.totals.error} errors, ${audit.totals.warning} warnings, ${audit.totals.info} info`,
+    `Migration: ${audit.migration_progress.percent_migrated}% migrated to runes `
+      + `(${audit.migration_progress.runes} runes, ${audit.migration_progress.legacy} legacy, ${audit.migration_progress.neutral} neutral)`,
+    audit.by_rule.length > 0
+      ? `| Rule | Severity | Findings | Files |\n|------|----------|----------|-------|\n${audit.by_rule.map(rule => `| ${rule.rule} | ${rule.severity} | ${rule.count} | ${rule.files} |`).join("\n")}`
+      : null,
+    audit.worst_files.length > 0
+      ? `Worst files:\n\n${audit.worst_files.map(file => `- ${file.path}: ${file.errors} errors, ${file.warnings} warnings, ${file.info} info (${file.migration_status})`).join("\n")}`
+      : null,
+    audit.unreadable.length > 0
+      ? `Unreadable:\n\n${audit.unreadable.map(file => `- ${file.path}: ${file.error}`).join("\n")}`
+      : null,
+  ].filter(Boolean).join("\n\n"),
+
+  migrate_component: ({ migration }) => [
+    `# Migration of ${migration.filename}`,
+    migration.changed ? null : "Nothing to migrate.",
+    migration.changes.length > 0
+      ? `Changes:\n\n${migration.changes.map(change =>
+        `- ${change.original_line ? `line ${change.original_line}: ` : ""}${change.description}${renderReferences(change.citations.knowledge)}`
+      ).join("\n")}`
+      : null,
+    migration.flagged.length > 0
+      ? `Needs manual work:\n\n${migration.flagged.map(flag =>
+        `- ${flag.line ? `line ${flag.line}: ` : ""}${flag.reason}${renderReferences(flag.citations.knowledge)}`
+      ).join("\n")}`
+      : null,
+    codeBlock(migration.code),
+  ].filter(Boolean).join("\n\n"),
+
+  explain_concept: ({ concept_explanation: explanation }) => [
+    `# ${explanation.concept} (${explanation.detail_level})`,
+    ...explanation.explanations.map(item => `## ${item.question}\n\n_#${item.id} · ${item.reason}_\n\n${item.answer.trim()}`),
+    ...(explanation.code_examples.length > 0 ? ["## Examples"] : []),
+    ...explanation.code_examples.map(item => `_#${item.id} · ${item.reason}_\n\n${item.scenario.trim()}\n\n${codeBlock(item.implementation)}`),
+  ].join("\n\n"),
+};
+
+/**
+ * Wrap a tool's output as `structuredContent` plus a text block in the requested format
+ */
+export function toolResult<N extends ToolName>(name: N, output: ToolOutput<N>, format: OutputFormat): CallToolResult {
+  const render = MARKDOWN_RENDERERS[name] as (output: ToolOutput<N>) => string;
+  return {
+    content: [{
+      type: "text",
+      text: format === "json" ? JSON.stringify(output, null, 2) : render(output),
+    }],
+    structuredContent: output,
+  };
+}
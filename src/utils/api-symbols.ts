@@ -0,0 +1,136 @@
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { editDistance, maxEditsFor } from './fuzzy.js';
+
+/**
+ * Reference catalog of Svelte 5 runes, APIs, template tags, special elements and directives
+ *
+ * The catalog lives in `data/api-symbols.json`:
+ *
+ *   { "version": 1, "symbols": [{ "name": "$derived.by", "kind": "rune", "signature": "...",
+ *     "summary": "...", "svelte4": ["Reactive blocks ..."] }] }
+ *
+ * Names use the forms utils/mentions.ts extracts from entries (`$state.raw`,
+ * `{@render}`, `<svelte:boundary>`, `bind:`, `onMount`), so every symbol can be
+ * joined with the entries that mention it.
+ */
+
+export const API_SYMBOLS_FILE_NAME = 'api-symbols.json';
+
+export type ApiSymbolKind = 'rune' | 'function' | 'class' | 'template-tag' | 'element' | 'directive';
+
+const KINDS: ApiSymbolKind[] = ['rune', 'function', 'class', 'template-tag', 'element', 'directive'];
+
+export interface ApiSymbol {
+  name: string;
+  kind: ApiSymbolKind;
+  /** Module to import it from; runes, template syntax and directives need no import */
+  module?: string;
+  signature: string;
+  summary: string;
+  /** How the same thing was written in Svelte 4; empty when it is new in Svelte 5 */
+  svelte4: string[];
+}
+
+export function getApiSymbolsPath(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), '..', 'data', API_SYMBOLS_FILE_NAME);
+}
+
+/**
+ * Read and validate the catalog; returns its raw contents too, so callers can tell when it changed
+ */
+export function loadApiSymbols(filePath: string = getApiSymbolsPath()): { symbols: ApiSymbol[]; contents: string } {
+  const contents = readFileSync(filePath, 'utf-8');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid API symbols file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed?.symbols)) {
+    throw new Error(`Invalid API symbols file ${filePath}: expected a "symbols" array`);
+  }
+
+  const seen = new Set<string>();
+  parsed.symbols.forEach((symbol: any, index: number) => {
+    if (typeof symbol?.name !== 'string' || !symbol.name.trim()) {
+      throw new Error(`Invalid API symbols file ${filePath}: symbol ${index} has no "name"`);
+    }
+    if (seen.has(symbol.name)) {
+      throw new Error(`Invalid API symbols file ${filePath}: "${symbol.name}" is listed twice`);
+    }
+    seen.add(symbol.name);
+    if (!KINDS.includes(symbol.kind)) {
+      throw new Error(`Invalid API symbols file ${filePath}: "${symbol.name}" needs a "kind" out of ${KINDS.join(', ')}`);
+    }
+    if (typeof symbol.signature !== 'string' || typeof symbol.summary !== 'string') {
+      throw new Error(`Invalid API symbols file ${filePath}: "${symbol.name}" needs a "signature" and a "summary"`);
+    }
+    if (!Array.isArray(symbol.svelte4) || symbol.svelte4.some((equivalent: unknown) => typeof equivalent !== 'string')) {
+      throw new Error(`Invalid API symbols file ${filePath}: "${symbol.name}" needs a "svelte4" array of strings`);
+    }
+  });
+
+  return { symbols: parsed.symbols, contents };
+}
+
+/**
+ * Kind of a symbol found in entries but missing from the catalog, from its form
+ */
+export function inferApiSymbolKind(name: string): ApiSymbolKind {
+  if (name.startsWith('$')) return 'rune';
+  if (name.startsWith('{')) return 'template-tag';
+  if (name.startsWith('<')) return 'element';
+  if (name.endsWith(':')) return 'directive';
+  return /^[A-Z]/.test(name) ? 'class' : 'function';
+}
+
+/**
+ * A name without its sigils: `state.raw` for `$state.raw`, `render` for `{@render}`,
+ * `boundary` for `<svelte:boundary>`, `bind` for `bind:`
+ */
+function bareName(name: string): string {
+  return name.trim()
+    .replace(/\(\s*\)$/, '')
+    .replace(/^\$/, '')
+    .replace(/^\{?[#@]/, '')
+    .replace(/^<?svelte:/, '')
+    .replace(/^</, '')
+    .replace(/\}$|\s*\/?>$|:$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Find the catalog or indexed name a query refers to, accepting the usual ways
+ * of writing it: `state.raw` or `$state.raw`, `render`, `@render` or `{@render}`,
+ * `boundary` or `<svelte:boundary>`, `onMount()`. Null when nothing matches.
+ */
+export function resolveApiSymbol(query: string, names: string[]): string | null {
+  const exact = names.find(name => name.toLowerCase() === query.trim().toLowerCase());
+  if (exact) return exact;
+
+  const bare = bareName(query);
+  return names.find(name => bareName(name) === bare) ?? null;
+}
+
+/**
+ * Names close to a query that matched nothing, closest first
+ */
+export function suggestApiSymbols(query: string, names: string[], limit: number = 5): string[] {
+  const bare = bareName(query);
+  if (!bare) return [];
+  const maxEdits = Math.max(maxEditsFor(bare), 1);
+
+  return names
+    .map(name => {
+      const candidate = bareName(name);
+      const contains = bare.length >= 3 && (candidate.includes(bare) || bare.includes(candidate));
+      const distance = contains ? 0 : editDistance(bare, candidate, maxEdits);
+      return { name, distance };
+    })
+    .filter(({ distance }) => distance <= maxEdits)
+    .sort((a, b) => a.distance - b.distance || a.name.length - b.name.length)
+    .slice(0, limit)
+    .map(({ name }) => name);
+}
@@ -0,0 +1,38 @@
+/**
+ * Tiny command line helpers (`--flag`, `--flag=value` and `--flag value`)
+ */
+
+export function hasFlag(args: string[], flag: string): boolean {
+  return args.some(arg => arg === flag || arg.startsWith(`${flag}=`));
+}
+
+/**
+ * Get the value of `--flag=value` or `--flag value`; `true` when the flag has no value
+ */
+export function getFlagValue(args: string[], flag: string): string | true | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith(`${flag}=`)) return arg.slice(flag.length + 1);
+    if (arg === flag) {
+      const next = args[i + 1];
+      return next !== undefined && !next.startsWith('--') ? next : true;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Arguments that are not flags, skipping the values of `valueFlags` given as `--flag value`
+ */
+export function getPositionalArgs(args: string[], valueFlags: string[] = []): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      if (valueFlags.includes(arg)) i++;
+      continue;
+    }
+    positional.push(arg);
+  }
+  return positional;
+}
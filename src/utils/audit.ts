@@ -0,0 +1,354 @@
+import { compile, compileModule, parse } from 'svelte/compiler';
+import { createLocator, declaredNames, getRuneName, isTypeScriptScript, RUNES, walk, type Node } from './svelte-ast.js';
+
+/**
+ * Static analysis of Svelte 5 source using the Svelte compiler
+ */
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+export type AuditCategory = 'compiler' | 'legacy' | 'a11y' | 'runes';
+export type AuditFocus = 'performance' | 'accessibility' | 'best-practices' | 'all';
+
+export interface AuditFinding {
+  rule: string;
+  severity: AuditSeverity;
+  category: AuditCategory;
+  message: string;
+  line: number;
+  column: number;
+  end_line?: number;
+  end_column?: number;
+  knowledge_query: string;
+}
+
+export interface AuditChecklist {
+  uses_runes: boolean;
+  uses_modern_events: boolean;
+  uses_snippets: boolean;
+  has_typescript: boolean;
+  accessibility_attributes: boolean;
+}
+
+export interface AuditResult {
+  filename: string;
+  kind: 'component' | 'module';
+  mode: 'runes' | 'legacy';
+  compiled: boolean;
+  findings: AuditFinding[];
+  checklist: AuditChecklist;
+}
+
+export interface AuditOptions {
+  filename?: string;
+  focus?: AuditFocus;
+}
+
+interface RuleDefinition {
+  severity: AuditSeverity;
+  category: AuditCategory;
+  focus: AuditFocus[];
+  query: string;
+}
+
+/**
+ * Rules detected by walking the AST (compiler warnings are mapped separately)
+ */
+export const AUDIT_RULES: Record<string, RuleDefinition> = {
+  'legacy/export-let': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices'],
+    query: '$props export let',
+  },
+  'legacy/reactive-statement': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices', 'performance'],
+    query: '$derived $effect reactive statement',
+  },
+  'legacy/on-directive': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices'],
+    query: 'onclick event handler',
+  },
+  'legacy/slot': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices'],
+    query: 'snippets slot',
+  },
+  'legacy/event-dispatcher': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices'],
+    query: 'createEventDispatcher callback props',
+  },
+  'legacy/lifecycle': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices'],
+    query: '$effect lifecycle',
+  },
+  'legacy/props-globals': {
+    severity: 'warning', category: 'legacy', focus: ['best-practices'],
+    query: '$props rest props',
+  },
+  'legacy/store-subscription': {
+    severity: 'info', category: 'legacy', focus: ['best-practices'],
+    query: 'stores runes $state',
+  },
+  'runes/effect-derives-state': {
+    severity: 'warning', category: 'runes', focus: ['best-practices', 'performance'],
+    query: '$derived instead of $effect',
+  },
+};
+
+const RUNE_CODE_PREFIXES = [
+  'state_', 'rune_', 'effect_', 'derived_', 'props_', 'bindable_', 'inspect_', 'host_', 'runes_',
+];
+
+function isModulePath(filename: string): boolean {
+  return /\.svelte\.(js|ts)$/.test(filename);
+}
+
+/**
+ * Map a compiler warning/error code to a finding category
+ */
+function categorizeCompilerCode(code: string): AuditCategory {
+  if (code.startsWith('a11y_')) return 'a11y';
+  if (RUNE_CODE_PREFIXES.some(prefix => code.startsWith(prefix))) return 'runes';
+  if (code.startsWith('legacy_') || code.endsWith('_deprecated')) return 'legacy';
+  return 'compiler';
+}
+
+function compilerFocus(category: AuditCategory): AuditFocus[] {
+  return category === 'a11y' ? ['accessibility'] : ['best-practices'];
+}
+
+function compilerQuery(code: string, category: AuditCategory): string {
+  if (category === 'a11y') return 'accessibility a11y ' + code.replace(/^a11y_/, '').replace(/_/g, ' ');
+  return code.replace(/_/g, ' ');
+}
+
+function firstLine(message: string): string {
+  return message.split('\n')[0];
+}
+
+/**
+ * Audit a Svelte component (.svelte) or rune module (.svelte.js/.svelte.ts)
+ */
+export function auditSvelteSource(code: string, options: AuditOptions = {}): AuditResult {
+  const filename = options.filename || 'Component.svelte';
+  const focus = options.focus || 'all';
+  const kind = isModulePath(filename) ? 'module' : 'component';
+
+  // TypeScript rune modules are checked as a `<script module lang="ts">` block
+  // because compileModule() only understands plain JavaScript
+  const wrapTs = kind === 'module' && filename.endsWith('.ts');
+  const source = wrapTs ? `<script module lang="ts">\n${code}\n</script>` : code;
+  const lineOffset = wrapTs ? 1 : 0;
+  const locate = createLocator(source);
+
+  const findings: AuditFinding[] = [];
+  const position = (start: number, end?: number) => {
+    const from = locate(start);
+    const to = end !== undefined ? locate(end) : undefined;
+    return {
+      line: from.line - lineOffset,
+      column: from.column,
+      ...(to ? { end_line: to.line - lineOffset, end_column: to.column } : {}),
+    };
+  };
+
+  const report = (rule: string, message: string, start: number, end?: number) => {
+    const definition = AUDIT_RULES[rule];
+    findings.push({
+      rule,
+      severity: definition.severity,
+      category: definition.category,
+      message,
+      ...position(start, end),
+      knowledge_query: definition.query,
+    });
+  };
+
+  // Compiler pass: errors, warnings and a11y checks
+  let compiled = true;
+  let runesMode = false;
+  try {
+    const result = kind === 'module' && !wrapTs
+      ? compileModule(source, { filename, generate: false })
+      : compile(source, { filename: wrapTs ? filename.replace(/\.ts$/, '') : filename, generate: false });
+
+    runesMode = 'metadata' in result ? Boolean((result.metadata as { runes?: boolean }).runes) : true;
+
+    for (const warning of result.warnings) {
+      const category = categorizeCompilerCode(warning.code);
+      findings.push({
+        rule: `svelte/${warning.code}`,
+        severity: 'warning',
+        category,
+        message: firstLine(warning.message),
+        ...(warning.start
+          ? position(warning.start.character, warning.end?.character)
+          : { line: 1, column: 1 }),
+        knowledge_query: compilerQuery(warning.code, category),
+      });
+    }
+  } catch (error) {
+    compiled = false;
+    const compileError = error as { code?: string; message?: string; start?: { character: number }; end?: { character: number } };
+    const code = compileError.code || 'compile_error';
+    const category = categorizeCompilerCode(code);
+    findings.push({
+      rule: `svelte/${code}`,
+      severity: 'error',
+      category,
+      message: firstLine(compileError.message || String(error)),
+      ...(compileError.start
+        ? position(compileError.start.character, compileError.end?.character)
+        : { line: 1, column: 1 }),
+      knowledge_query: compilerQuery(code, category),
+    });
+  }
+
+  // AST pass: legacy syntax and rune misuse
+  let ast: any = null;
+  try {
+    ast = parse(source, { modern: true });
+  } catch {
+    // Parse errors were already reported by the compiler pass
+  }
+
+  const checklist: AuditChecklist = {
+    uses_runes: false,
+    uses_modern_events: false,
+    uses_snippets: false,
+    has_typescript: wrapTs,
+    accessibility_attributes: false,
+  };
+
+  if (ast) {
+    const scripts = [ast.instance, ast.module].filter(Boolean);
+    const stateNames = new Set<string>();
+    const reportedStores = new Set<string>();
+    // `$`-prefixed parameters and locals are plain variables, not store subscriptions
+    const declared = declaredNames(ast);
+    let hasLegacyEvents = false;
+
+    checklist.has_typescript = checklist.has_typescript || scripts.some(isTypeScriptScript);
+
+    // Top-level script statements
+    for (const script of scripts) {
+      for (const statement of script.content.body as Node[]) {
+        if (statement.type === 'ExportNamedDeclaration' && script === ast.instance) {
+          if (statement.declaration?.type === 'VariableDeclaration' && statement.declaration.kind === 'let') {
+            const names = statement.declaration.declarations.map((d: Node) => d.id?.name).filter(Boolean).join(', ');
+            report('legacy/export-let', `\`export let ${names}\` declares legacy props; destructure them from \`$props()\` instead`, statement.start!, statement.end);
+          }
+        }
+
+        if (statement.type === 'LabeledStatement' && statement.label?.name === '$') {
+          const isDerivation = statement.body?.type === 'ExpressionStatement' &&
+            statement.body.expression?.type === 'AssignmentExpression';
+          report(
+            'legacy/reactive-statement',
+            isDerivation
+              ? '`$:` reactive assignment should become a `$derived` declaration'
+              : '`$:` reactive statement should become `$effect` (or `$derived` if it only computes a value)',
+            statement.start!,
+            statement.end
+          );
+        }
+
+        if (statement.type === 'ImportDeclaration' && statement.source?.value === 'svelte') {
+          for (const specifier of statement.specifiers as Node[]) {
+            const imported = specifier.imported?.name;
+            if (imported === 'createEventDispatcher') {
+              report('legacy/event-dispatcher', '`createEventDispatcher` is deprecated; accept callback props such as `onsubmit` instead', specifier.start!, specifier.end);
+            } else if (imported === 'beforeUpdate' || imported === 'afterUpdate') {
+              report('legacy/lifecycle', `\`${imported}\` is not available in runes mode; use \`${imported === 'beforeUpdate' ? '$effect.pre' : '$effect'}\` instead`, specifier.start!, specifier.end);
+            }
+          }
+        }
+
+        if (statement.type === 'ImportDeclaration' && statement.source?.value === 'svelte/store') {
+          report('legacy/store-subscription', 'Stores from `svelte/store` can usually be replaced by `$state` in a `.svelte.js`/`.svelte.ts` module', statement.start!, statement.end);
+        }
+
+        for (const declarator of statement.type === 'VariableDeclaration' ? statement.declarations as Node[] : []) {
+          if (getRuneName(declarator.init?.callee) === '$state' && declarator.id?.type === 'Identifier') {
+            stateNames.add(declarator.id.name);
+          }
+        }
+      }
+    }
+
+    walk(ast, (node) => {
+      switch (node.type) {
+        case 'CallExpression': {
+          const rune = getRuneName(node.callee);
+          if (rune) checklist.uses_runes = true;
+
+          // $effect(() => { a = ...; }) that only writes state is a derivation in disguise
+          if (rune === '$effect' && node.arguments?.length === 1) {
+            const fn = node.arguments[0];
+            const body: Node[] = fn?.body?.type === 'BlockStatement'
+              ? fn.body.body
+              : fn?.body ? [{ type: 'ExpressionStatement', expression: fn.body }] : [];
+            const onlyAssignsState = body.length > 0 && body.every(statement =>
+              statement.type === 'ExpressionStatement' &&
+              statement.expression?.type === 'AssignmentExpression' &&
+              statement.expression.operator === '=' &&
+              statement.expression.left?.type === 'Identifier' &&
+              stateNames.has(statement.expression.left.name)
+            );
+            if (onlyAssignsState) {
+              const targets = body.map(statement => statement.expression.left.name).join(', ');
+              report('runes/effect-derives-state', `\`$effect\` only assigns \`${targets}\`; declare it with \`$derived\` instead of syncing state in an effect`, node.start!, node.end);
+            }
+          }
+          break;
+        }
+        case 'OnDirective':
+          hasLegacyEvents = true;
+          report('legacy/on-directive', `\`on:${node.name}\` is deprecated; use the \`on${node.name}\` attribute instead`, node.start!, node.end);
+          break;
+        case 'SlotElement':
+          report('legacy/slot', '`<slot>` is deprecated; accept a snippet prop and `{@render}` it instead', node.start!, node.end);
+          break;
+        case 'Attribute':
+          if (node.name === 'slot') {
+            report('legacy/slot', '`slot="..."` is deprecated; pass content with `{#snippet}` blocks instead', node.start!, node.end);
+          } else if (/^on[a-z]+$/.test(node.name)) {
+            checklist.uses_modern_events = true;
+          } else if (node.name.startsWith('aria-') || node.name === 'role') {
+            checklist.accessibility_attributes = true;
+          }
+          break;
+        case 'SnippetBlock':
+        case 'RenderTag':
+          checklist.uses_snippets = true;
+          break;
+        case 'Identifier':
+          if (node.name === '$$props' || node.name === '$$restProps') {
+            report('legacy/props-globals', `\`${node.name}\` is not available in runes mode; use \`let { ...rest } = $props()\` instead`, node.start!, node.end);
+          } else if (node.name === '$$slots') {
+            report('legacy/slot', '`$$slots` is deprecated; check whether the snippet prop is defined instead', node.start!, node.end);
+          } else if (/^\$[A-Za-z_]\w*$/.test(node.name) && !RUNES.has(node.name) && !declared.has(node.name) && !reportedStores.has(node.name)) {
+            reportedStores.add(node.name);
+            report('legacy/store-subscription', `\`${node.name}\` auto-subscribes to a store; consider moving the shared state into a rune-based module`, node.start!, node.end);
+          }
+          break;
+      }
+    });
+
+    checklist.uses_modern_events = checklist.uses_modern_events && !hasLegacyEvents;
+  }
+
+  const severityOrder: Record<AuditSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+  return {
+    filename,
+    kind,
+    mode: runesMode || checklist.uses_runes ? 'runes' : 'legacy',
+    compiled,
+    findings: findings
+      .filter(finding => focus === 'all' || finding.severity === 'error' || findingFocus(finding).includes(focus))
+      .sort((a, b) => a.line - b.line || a.column - b.column || severityOrder[a.severity] - severityOrder[b.severity]),
+    checklist,
+  };
+}
+
+function findingFocus(finding: AuditFinding): AuditFocus[] {
+  return AUDIT_RULES[finding.rule]?.focus ?? compilerFocus(finding.category);
+}
@@ -0,0 +1,74 @@
+/**
+ * Helpers for the code snippets stored in knowledge answers and example outputs
+ */
+
+export interface CodeSnippet {
+  code: string;
+  /** Fence language or the extension of the file marker, lower-cased; empty when unknown */
+  language: string;
+  /** Lines before the snippet in the text it was taken from */
+  offsetLines: number;
+  /** File name from a `<!file: Name.svelte>` marker */
+  filename?: string;
+}
+
+export const CODE_FENCE_PATTERN = /```([\w-]*)[^\n]*\n([\s\S]*?)```/g;
+
+const FILE_MARKER_PATTERN = /^\s*<!file:\s*([^>]*)>\s*$/;
+
+/**
+ * Code snippets in a text: its fenced blocks, or the whole text when it has none and `wholeIsCode` is set
+ */
+export function codeBlocks(text: string, wholeIsCode: boolean): CodeSnippet[] {
+  const blocks: CodeSnippet[] = [];
+  for (const match of text.matchAll(CODE_FENCE_PATTERN)) {
+    blocks.push({
+      code: match[2],
+      language: match[1].toLowerCase(),
+      offsetLines: text.slice(0, match.index! + match[0].indexOf('\n') + 1).split('\n').length - 1,
+    });
+  }
+  if (blocks.length === 0 && wholeIsCode) {
+    blocks.push({ code: text, language: '', offsetLines: 0 });
+  }
+  return blocks;
+}
+
+/**
+ * Split a snippet on the docs' `<!file: Name.svelte>` markers. Each file takes the
+ * language its extension implies; files with no code are dropped.
+ */
+export function splitFiles(snippet: CodeSnippet): CodeSnippet[] {
+  const files: CodeSnippet[] = [];
+  let current = { lines: [] as string[], language: snippet.language, offsetLines: snippet.offsetLines, filename: snippet.filename };
+
+  const flush = () => {
+    files.push({ code: current.lines.join('\n'), language: current.language, offsetLines: current.offsetLines, filename: current.filename });
+  };
+
+  snippet.code.split('\n').forEach((line, index) => {
+    const marker = line.match(FILE_MARKER_PATTERN);
+    if (!marker) {
+      current.lines.push(line);
+      return;
+    }
+    flush();
+    const filename = marker[1].trim();
+    const extension = filename.match(/\.(\w+)$/)?.[1]?.toLowerCase() ?? '';
+    current = { lines: [], language: extension, offsetLines: snippet.offsetLines + index + 1, filename };
+  });
+  flush();
+
+  return files.filter(file => file.code.trim());
+}
+
+/**
+ * Whether a snippet is Svelte markup (a component or template excerpt) rather than plain script
+ */
+export function looksLikeMarkup(code: string, language: string): boolean {
+  return language === 'svelte' || language === 'html' || /^\s*</.test(code) || /\{[#@:/]/.test(code);
+}
+
+export function looksLikeTypeScript(code: string, language: string): boolean {
+  return language === 'ts' || language === 'typescript' || /:\s*(?:string|number|boolean)\b|\binterface\s+\w|<script[^>]*lang=["']ts["']/.test(code);
+}
@@ -1,6 +1,7 @@
 import { join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
+import { logger } from './logger.js';
 
 export interface ConfigPaths {
   configDir: string;
@@ -48,7 +49,7 @@ export function getConfigPaths(): ConfigPaths {
     try {
       mkdirSync(configDir, { recursive: true });
     } catch (error) {
-      console.warn(`Warning: Could not create config directory ${configDir}:`, error);
+      logger.warning(`Could not create config directory ${configDir}`, error);
       // Fallback to temp directory if we can't create config dir
       configDir = join(process.cwd(), '.svelte5-mcp-cache');
       if (!existsSync(configDir)) {
@@ -79,20 +80,45 @@ export function getConfigDirectory(): string {
   return getConfigPaths().configDir;
 }
 
+/**
+ * Directory for the user's own knowledge/ and patterns/ JSONL files
+ */
+export function getOverlayDirectory(): string {
+  return process.env.SVELTE5_MCP_OVERLAY_DIR || join(getConfigDirectory(), 'overlay');
+}
+
+/**
+ * Directory scanned for knowledge packs, next to those found in node_modules
+ */
+export function getPacksDirectory(): string {
+  return process.env.SVELTE5_MCP_PACKS_DIR || join(getConfigDirectory(), 'packs');
+}
+
 /**
  * Log config paths for debugging purposes
  */
 export function logConfigPaths(): void {
   const paths = getConfigPaths();
-  console.log('Svelte5 MCP Configuration:');
-  console.log(`  Config Directory: ${paths.configDir}`);
-  console.log(`  Database Path: ${paths.databasePath}`);
+  logger.debug('Svelte5 MCP Configuration:');
+  logger.debug(`  Config Directory: ${paths.configDir}`);
+  logger.debug(`  Database Path: ${paths.databasePath}`);
+  logger.debug(`  Overlay Directory: ${getOverlayDirectory()}`);
+  logger.debug(`  Packs Directory: ${getPacksDirectory()}`);
 
   if (process.env.SVELTE5_MCP_CONFIG_DIR) {
-    console.log(`  Using custom config dir from SVELTE5_MCP_CONFIG_DIR`);
+    logger.debug(`  Using custom config dir from SVELTE5_MCP_CONFIG_DIR`);
   }
 
   if (process.env.SVELTE5_MCP_DB_PATH) {
-    console.log(`  Using custom database path from SVELTE5_MCP_DB_PATH`);
+    logger.debug(`  Using custom database path from SVELTE5_MCP_DB_PATH`);
+  }
+
+  if (process.env.SVELTE5_MCP_OVERLAY_DIR) {
+    logger.debug(`  Using custom overlay directory from SVELTE5_MCP_OVERLAY_DIR`);
+  }
+
+  const logFile = logger.getLogFile();
+  if (logFile) {
+    logger.debug(`  Log File: ${logFile}`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,308 @@
+import { parse } from 'svelte/compiler';
+import { z } from 'zod';
+import { join, relative } from 'path';
+import { cosineSimilarity, embed } from './embedding.js';
+import { scanJsonlFiles, validateJSONL, type JSONLEntry } from './jsonl.js';
+import { CODE_FENCE_PATTERN, codeBlocks, looksLikeMarkup, looksLikeTypeScript, splitFiles } from './code-snippets.js';
+import { DIFFICULTY_LEVELS } from './difficulty.js';
+
+/**
+ * Lint the JSONL corpus: schema, duplicates, garbled prose, citation leftovers and code that does not parse
+ */
+
+export const KnowledgeItemSchema = z.object({
+  question: z.string().trim().min(1, 'must not be empty'),
+  answer: z.string().trim().min(1, 'must not be empty'),
+  level: z.enum(DIFFICULTY_LEVELS).optional(),
+  /** Instructions of examples to link to */
+  related: z.array(z.string().trim().min(1, 'must not be empty')).optional(),
+}).strict();
+
+export const ExampleItemSchema = z.object({
+  instruction: z.string().trim().min(1, 'must not be empty'),
+  input: z.string(),
+  output: z.string().trim().min(1, 'must not be empty'),
+  /** Questions of knowledge entries to link to */
+  related: z.array(z.string().trim().min(1, 'must not be empty')).optional(),
+}).strict();
+
+export type KnowledgeItem = z.infer<typeof KnowledgeItemSchema>;
+export type ExampleItem = z.infer<typeof ExampleItemSchema>;
+
+export type DataIssueSeverity = 'error' | 'warning';
+
+export type DataIssueRule =
+  | 'schema'
+  | 'empty-file'
+  | 'duplicate'
+  | 'near-duplicate'
+  | 'garbled'
+  | 'citation'
+  | 'code-parse'
+  | 'unknown-related';
+
+export interface DataIssue {
+  file: string;
+  line: number;
+  severity: DataIssueSeverity;
+  rule: DataIssueRule;
+  message: string;
+}
+
+export interface DataValidationReport {
+  files: number;
+  entries: number;
+  errors: number;
+  warnings: number;
+  issues: DataIssue[];
+}
+
+/** A data directory and the names of its JSONL subfolders */
+export interface DataValidationFolder {
+  dir: string;
+  knowledgeDir?: string;
+  patternsDir?: string;
+}
+
+/** Cosine similarity above which two entries of one folder are reported as near-duplicates */
+const NEAR_DUPLICATE_SIMILARITY = 0.85;
+
+const CITATION_PATTERN = /\[cite(?:_start|_end)?(?::[^\]]*)?\]/g;
+
+/**
+ * Traces of prose whose inline code spans were stripped, e.g. "The rune allows you
+ * to create which means" (from "The `$state` rune allows you to create reactive state, which means")
+ */
+const GARBLED_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\b(?:the|a|an|if|when|because|since|unless|while)\s+(?:is|are|was|were|has|have|does)\b/i, reason: 'missing subject' },
+  { pattern: /\b(?:the|a|an)\s+(?:which|that|and|or|of|to|with|is|are|,)(?=[\s,.])/i, reason: 'article without a noun' },
+  { pattern: /\b(?:create|use|call|pass|return|import|access)\s+(?:which|when|and|so)\b/i, reason: 'verb without an object' },
+  { pattern: /\w\s+[.,;:](?=\s|$)/, reason: 'dangling punctuation' },
+  { pattern: /(?<![\w$.])\(\s*\)|``/, reason: 'empty parentheses or code span' },
+];
+
+/** `{ ... }`, `[...]` and `<p>...</p>` stand for omitted code, so such snippets may not parse */
+const PLACEHOLDER_PATTERN = /\{\s*\.\.\.\s*\}|\[\s*\.\.\.\s*\]|>\s*\.\.\.\s*</;
+
+const PARSEABLE_LANGUAGES = new Set(['', 'svelte', 'html', 'js', 'javascript', 'ts', 'typescript']);
+
+function normalizeKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse a snippet as Svelte markup, or as a script when it does not look like markup.
+ * Returns the parser's message and the 1-based line within the snippet on failure.
+ */
+function parseSnippet(code: string, language: string): { message: string; line: number } | null {
+  // Script snippets are wrapped in a script tag, which adds no lines before the code
+  const source = looksLikeMarkup(code, language)
+    ? code
+    : `<script${looksLikeTypeScript(code, language) ? ' lang="ts"' : ''}>${code}\n</script>`;
+
+  try {
+    parse(source, { modern: true });
+    return null;
+  } catch (error: any) {
+    const message = (error?.message ?? String(error)).split('\n')[0];
+    return { message, line: error?.start?.line ?? 1 };
+  }
+}
+
+function checkProse(field: string, text: string, report: (rule: DataIssueRule, severity: DataIssueSeverity, message: string) => void) {
+  const citations = text.match(CITATION_PATTERN);
+  if (citations) {
+    report('citation', 'warning', `"${field}" contains ${citations.length} citation marker(s) such as ${citations[0]}`);
+  }
+
+  // Only prose is checked for garbling; code and inline code legitimately break these patterns
+  const prose = text.replace(CODE_FENCE_PATTERN, ' ').replace(/`[^`\n]*`/g, 'CODE').replace(CITATION_PATTERN, '');
+  for (const { pattern, reason } of GARBLED_PATTERNS) {
+    const match = prose.match(pattern);
+    if (match) {
+      const start = Math.max(0, match.index! - 30);
+      const context = prose.slice(start, match.index! + match[0].length + 30).replace(/\s+/g, ' ').trim();
+      report('garbled', 'warning', `"${field}" looks garbled (${reason}): "…${context}…"`);
+      break;
+    }
+  }
+}
+
+function checkCode(field: string, text: string, wholeIsCode: boolean, report: (rule: DataIssueRule, severity: DataIssueSeverity, message: string) => void) {
+  for (const block of codeBlocks(text, wholeIsCode)) {
+    if (!PARSEABLE_LANGUAGES.has(block.language)) continue;
+
+    const files = splitFiles(block);
+    if (files.length === 0) {
+      report('code-parse', 'error', `Code in "${field}" is empty apart from file markers`);
+      continue;
+    }
+
+    for (const file of files) {
+      if (!PARSEABLE_LANGUAGES.has(file.language)) continue;
+      const failure = parseSnippet(file.code, file.language);
+      if (failure) {
+        const line = file.offsetLines + failure.line;
+        const elided = PLACEHOLDER_PATTERN.test(file.code);
+        report(
+          'code-parse',
+          elided ? 'warning' : 'error',
+          `Code in "${field}" does not parse (line ${line} of the field)${elided ? ', possibly because of "..." placeholders' : ''}: ${failure.message}`,
+        );
+      }
+    }
+  }
+}
+
+interface CheckedEntry {
+  file: string;
+  line: number;
+  key: string;
+  text: string;
+}
+
+/**
+ * Report exact duplicate keys and entries whose text is nearly the same
+ */
+function checkDuplicates(entries: CheckedEntry[], kind: string, issues: DataIssue[]) {
+  const seen = new Map<string, CheckedEntry>();
+  const unique: CheckedEntry[] = [];
+
+  for (const entry of entries) {
+    const key = normalizeKey(entry.key);
+    const first = seen.get(key);
+    if (first) {
+      issues.push({
+        file: entry.file,
+        line: entry.line,
+        severity: 'error',
+        rule: 'duplicate',
+        message: `Duplicate ${kind} "${entry.key.slice(0, 80)}" (first at ${first.file}:${first.line})`,
+      });
+    } else {
+      seen.set(key, entry);
+      unique.push(entry);
+    }
+  }
+
+  const vectors = unique.map(entry => embed(entry.text));
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = 0; j < i; j++) {
+      const similarity = cosineSimilarity(vectors[i], vectors[j]);
+      if (similarity >= NEAR_DUPLICATE_SIMILARITY) {
+        issues.push({
+          file: unique[i].file,
+          line: unique[i].line,
+          severity: 'warning',
+          rule: 'near-duplicate',
+          message: `Nearly the same as ${unique[j].file}:${unique[j].line} (similarity ${similarity.toFixed(2)})`,
+        });
+        break;
+      }
+    }
+  }
+}
+
+interface RelatedKey {
+  file: string;
+  line: number;
+  kind: 'question' | 'instruction';
+  key: string;
+}
+
+/**
+ * Validate every knowledge and pattern file of the given folders. Duplicates are
+ * looked for within a folder only, since an overlay may deliberately replace entries;
+ * `related` keys may point into any folder.
+ */
+export function validateDataFolders(folders: DataValidationFolder[], cwd: string = process.cwd()): DataValidationReport {
+  const issues: DataIssue[] = [];
+  let files = 0;
+  let entryCount = 0;
+  const keys = { question: new Set<string>(), instruction: new Set<string>() };
+  const relatedKeys: RelatedKey[] = [];
+
+  for (const { dir, knowledgeDir = 'knowledge', patternsDir = 'patterns' } of folders) {
+    const kinds = [
+      { kind: 'question', paths: scanJsonlFiles(join(dir, knowledgeDir)), schema: KnowledgeItemSchema },
+      { kind: 'instruction', paths: scanJsonlFiles(join(dir, patternsDir)), schema: ExampleItemSchema },
+    ] as const;
+
+    for (const { kind, paths, schema } of kinds) {
+      const checked: CheckedEntry[] = [];
+
+      for (const path of paths) {
+        const file = relative(cwd, path) || path;
+        files++;
+
+        const result = validateJSONL<KnowledgeItem | ExampleItem>(path, schema);
+        for (const issue of result.issues) {
+          issues.push({ file, line: issue.line, severity: 'error', rule: 'schema', message: issue.message });
+        }
+        if (result.entries.length === 0 && result.issues.length === 0) {
+          issues.push({ file, line: 1, severity: 'warning', rule: 'empty-file', message: 'File has no entries' });
+        }
+
+        for (const { data, line } of result.entries as JSONLEntry<any>[]) {
+          entryCount++;
+          const report = (rule: DataIssueRule, severity: DataIssueSeverity, message: string) =>
+            issues.push({ file, line, severity, rule, message });
+
+          if ('question' in data) {
+            const item = data as KnowledgeItem;
+            checkProse('question', item.question, report);
+            checkProse('answer', item.answer, report);
+            checkCode('answer', item.answer, false, report);
+            checked.push({ file, line, key: item.question, text: `${item.question} ${item.answer}` });
+            keys.question.add(item.question);
+            relatedKeys.push(...(item.related ?? []).map(key => ({ file, line, kind: 'instruction' as const, key })));
+          } else {
+            const item = data as ExampleItem;
+            checkProse('instruction', item.instruction, report);
+            checkProse('input', item.input, report);
+            checkCode('output', item.output, true, report);
+            checked.push({ file, line, key: item.instruction, text: `${item.instruction} ${item.input} ${item.output}` });
+            keys.instruction.add(item.instruction);
+            relatedKeys.push(...(item.related ?? []).map(key => ({ file, line, kind: 'question' as const, key })));
+          }
+        }
+      }
+
+      checkDuplicates(checked, kind, issues);
+    }
+  }
+
+  // Unmatched keys are skipped at sync time, so they only warn
+  for (const { file, line, kind, key } of relatedKeys) {
+    if (!keys[kind].has(key)) {
+      issues.push({ file, line, severity: 'warning', rule: 'unknown-related', message: `"related" names no ${kind === 'question' ? 'knowledge entry with question' : 'example with instruction'} "${key.slice(0, 80)}"` });
+    }
+  }
+
+  issues.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  return {
+    files,
+    entries: entryCount,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues,
+  };
+}
+
+/**
+ * Schema errors of a folder's knowledge and pattern files, as `Line <n> in <file>: <message>`.
+ * Only the checks a sync depends on, so it is cheap enough to run before loading a pack.
+ */
+export function findSchemaErrors({ dir, knowledgeDir = 'knowledge', patternsDir = 'patterns' }: DataValidationFolder): string[] {
+  return [
+    ...scanJsonlFiles(join(dir, knowledgeDir)).flatMap(path => validateJSONL(path, KnowledgeItemSchema).errors),
+    ...scanJsonlFiles(join(dir, patternsDir)).flatMap(path => validateJSONL(path, ExampleItemSchema).errors),
+  ];
+}
+
+/**
+ * `file:line: severity [rule] message`, the format editors and CI annotate from
+ */
+export function formatDataIssue(issue: DataIssue): string {
+  return `${issue.file}:${issue.line}: ${issue.severity} [${issue.rule}] ${issue.message}`;
+}
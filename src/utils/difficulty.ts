@@ -0,0 +1,50 @@
+/**
+ * Difficulty of knowledge entries and complexity of example code
+ *
+ * Knowledge entries carry a `level` in their JSONL line; entries without one
+ * (overlays and packs that predate levels) get one inferred from their text.
+ * Examples are graded by the size and APIs of their code.
+ */
+
+export const DIFFICULTY_LEVELS = ['basic', 'intermediate', 'advanced'] as const;
+export type DifficultyLevel = typeof DIFFICULTY_LEVELS[number];
+
+export const COMPLEXITY_LEVELS = ['simple', 'moderate', 'complex'] as const;
+export type CodeComplexity = typeof COMPLEXITY_LEVELS[number];
+
+/** APIs that assume a working knowledge of runes and components */
+const ADVANCED_APIS = /untrack|\$effect\.(?:pre|root|tracking)|\$state\.(?:raw|snapshot)|\$host|createSubscriber|\bmount\(|hydrate\(/;
+
+/** Topics of advanced questions, besides the advanced APIs */
+const ADVANCED_TOPICS = /push-pull|custom element|hydrat|server-side|\bssr\b|imperativ|compil|bundle|optimi[sz]|performance|boundary|recursi|contract|errors|warnings|animat|timing|advanced/i;
+
+/** Topics every Svelte tutorial starts with */
+const INTRODUCTORY_TOPICS = /what is svelte|get(?:ting)? started|basics?\b|conditional|iterate|\blists?\b|\bclass(?:es)?\b|\bstyles?\b|\bprops\b|reactive state|derived state|template|markup/i;
+
+const CODE_FENCE = /```/g;
+
+export function isDifficultyLevel(value: unknown): value is DifficultyLevel {
+  return typeof value === 'string' && (DIFFICULTY_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Estimate the level of an untagged knowledge entry from its question and answer
+ */
+export function inferDifficulty(question: string, answer: string): DifficultyLevel {
+  if (ADVANCED_APIS.test(question) || ADVANCED_TOPICS.test(question)) return 'advanced';
+  if (INTRODUCTORY_TOPICS.test(question)) return 'basic';
+  // Long answers with many snippets usually build on other concepts
+  return answer.length > 6000 && (answer.match(CODE_FENCE)?.length ?? 0) >= 8 ? 'advanced' : 'intermediate';
+}
+
+/**
+ * Grade example code by its length and the advanced APIs it uses
+ */
+export function codeComplexity(code: string): CodeComplexity {
+  const lines = code.split('\n').filter(line => line.trim()).length;
+  const advanced = ADVANCED_APIS.test(code);
+
+  if (lines <= 15 && !advanced) return 'simple';
+  if (lines <= 40) return advanced ? 'complex' : 'moderate';
+  return 'complex';
+}
@@ -0,0 +1,196 @@
+/**
+ * Local text embeddings for semantic search
+ *
+ * A pure TypeScript "hashing trick" model: stemmed words, word pairs and
+ * concepts from a small Svelte lexicon are hashed into a fixed-size vector.
+ * The lexicon maps everyday phrasing ("run code when something changes") and
+ * API names (`$effect`, `onMount`) onto shared concept features, so queries
+ * and entries that never share a word can still land close together. No model
+ * download and no network access are needed.
+ */
+
+export const EMBEDDING_DIMENSIONS = 512;
+
+/** Stored next to each vector; bump whenever tokenizing or the lexicon changes */
+export const EMBEDDING_MODEL = 'hashed-lexical-v1';
+
+const WORD_WEIGHT = 1;
+const PAIR_WEIGHT = 0.5;
+const CONCEPT_WEIGHT = 3;
+
+
+/**
+ * Everyday phrasing and API names for each concept. Phrases are matched on
+ * stemmed tokens, so "changes", "changed" and "changing" are all covered.
+ */
+const CONCEPT_LEXICON: Record<string, string[]> = {
+  state: ['$state', 'reactive state', 'reactive variable', 'local state', 'mutable', 'update value', 'counter', 'reactivity'],
+  derived: ['$derived', '$derived.by', 'computed', 'derive', 'calculated from', 'depends on', 'recalculate', 'recompute'],
+  effect: [
+    '$effect', '$effect.pre', 'side effect', 'run code', 'something changes', 'when changes', 'react to', 'watch',
+    'after render', 'reactive statement', 'cleanup', 'teardown', 'sync with', 'afterupdate', 'beforeupdate',
+  ],
+  lifecycle: ['onmount', 'ondestroy', 'mount', 'unmount', 'destroy', 'lifecycle', 'first render'],
+  props: ['$props', 'prop', 'pass data', 'parent to child', 'component input', 'export let', 'rest props', 'default value'],
+  bindable: ['$bindable', 'two way binding', 'bind value', 'binding'],
+  snippets: ['snippet', '{#snippet', '@render', 'render', 'slot', 'children', 'reusable markup', 'template fragment'],
+  events: ['onclick', 'event handler', 'event', 'click', 'dispatch', 'createeventdispatcher', 'callback prop', 'handle event', 'listener'],
+  stores: ['store', 'writable', 'readable', 'subscribe', 'shared state', 'global state'],
+  context: ['setcontext', 'getcontext', 'context', 'dependency injection', 'share between components'],
+  async: ['await', 'fetch', 'promise', 'loading', 'async', 'api call', 'load data', '{#await'],
+  forms: ['form', 'input', 'validation', 'validate', 'submit', 'field'],
+  accessibility: ['accessibility', 'a11y', 'aria', 'screen reader', 'keyboard', 'focus', 'label'],
+  performance: ['performance', 'optimize', 'slow', 'fast', '$state.raw', 'large list', 'virtual', 'memoize', 'expensive'],
+  transitions: ['transition', 'animation', 'animate', 'fade', 'fly', 'motion', 'tween', 'spring'],
+  debugging: ['$inspect', 'debug', 'console.log', 'troubleshoot', 'error', 'warning', 'bug'],
+  migration: ['migrate', 'migration', 'svelte 4', 'upgrade', 'legacy', 'runes mode'],
+  typescript: ['typescript', 'type', 'generic', 'lang ts', 'interface'],
+  ssr: ['ssr', 'server side', 'hydration', 'sveltekit', 'server'],
+  classes: ['class', 'reactive class', 'getter', 'setter'],
+};
+
+/**
+ * Crude suffix stripping so inflections share a token
+ */
+export function stem(word: string): string {
+  if (word.startsWith('$') || word.includes('.')) return word;
+  let stemmed = word;
+  if (stemmed.length > 4 && stemmed.endsWith('ies')) return stemmed.slice(0, -3) + 'y';
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (stemmed.length - suffix.length >= 3 && stemmed.endsWith(suffix)) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+  if (stemmed.length >= 4 && stemmed.endsWith('e')) stemmed = stemmed.slice(0, -1);
+  return stemmed;
+}
+
+/**
+ * Lowercased, stemmed tokens; rune names such as `$state.raw` stay whole
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/[{#@]?\$?[a-z0-9_]+(?:\.[a-z_]+)*/g)) {
+    const raw = match[0].replace(/^[{#@]+(?=\$)/, '');
+    tokens.push(stem(raw));
+    // `$effect.pre` also counts as `$effect`, `{#snippet` also as `snippet`
+    if (raw.includes('.')) tokens.push(raw.split('.')[0]);
+    if (/^[{#@]/.test(raw)) tokens.push(stem(raw.replace(/^[{#@]+/, '')));
+  }
+  return tokens;
+}
+
+// Words too common in the knowledge base to say anything about an entry
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this',
+  'to', 'use', 'using', 'want', 'what', 'when', 'which', 'will', 'with', 'you', 'your', 'should', 'would',
+  'svelte', '5', 'component', 'create', 'demonstrating', 'example', 'way',
+].map(stem));
+
+// Phrases go through the same tokenizer as the text they are matched against
+const CONCEPT_PHRASES: { concept: string; tokens: string[] }[] = Object.entries(CONCEPT_LEXICON)
+  .flatMap(([concept, phrases]) => phrases.map(phrase => ({ concept, tokens: tokenize(phrase) })))
+  .filter(({ tokens }) => tokens.length > 0);
+
+function hash(feature: string): number {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function addFeature(vector: Float32Array, feature: string, weight: number) {
+  const h = hash(feature);
+  // The sign bit keeps colliding features from always reinforcing each other
+  vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000) ? -weight : weight;
+}
+
+/**
+ * Concepts mentioned in a token stream, with how often each appears
+ */
+export function detectConcepts(tokens: string[]): Map<string, number> {
+  const concepts = new Map<string, number>();
+  for (let i = 0; i < tokens.length; i++) {
+    for (const phrase of CONCEPT_PHRASES) {
+      if (phrase.tokens[0] !== tokens[i]) continue;
+      if (phrase.tokens.every((token, offset) => tokens[i + offset] === token)) {
+        concepts.set(phrase.concept, (concepts.get(phrase.concept) ?? 0) + 1);
+      }
+    }
+  }
+  return concepts;
+}
+
+/**
+ * Embed text into an L2-normalized vector
+ */
+export function embed(text: string): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  const tokens = tokenize(text);
+  const words = tokens.filter(token => !STOPWORDS.has(token));
+
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(`w:${word}`, (counts.get(`w:${word}`) ?? 0) + WORD_WEIGHT);
+  for (let i = 1; i < words.length; i++) {
+    const pair = `p:${words[i - 1]} ${words[i]}`;
+    counts.set(pair, (counts.get(pair) ?? 0) + PAIR_WEIGHT);
+  }
+  for (const [concept, count] of detectConcepts(tokens)) {
+    counts.set(`c:${concept}`, count * CONCEPT_WEIGHT);
+  }
+
+  // Dampen repetition so long entries are not dominated by one term
+  for (const [feature, weight] of counts) {
+    addFeature(vector, feature, Math.log1p(weight));
+  }
+
+  return normalize(vector);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two normalized vectors
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+export function vectorToBlob(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Uint8Array): Float32Array {
+  // Copy so the Float32Array is correctly aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+/**
+ * Merge ranked id lists with reciprocal-rank fusion (k = 60 as in Cormack et al.)
+ */
+export function reciprocalRankFusion<T>(lists: T[][], k: number = 60): { item: T; score: number }[] {
+  const scores = new Map<T, number>();
+  for (const list of lists) {
+    list.forEach((item, rank) => {
+      scores.set(item, (scores.get(item) ?? 0) + 1 / (k + rank + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([item, score]) => ({ item, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,88 @@
+import { VERSION } from 'svelte/compiler';
+import { auditSvelteSource } from './audit.js';
+import { codeBlocks, looksLikeMarkup, looksLikeTypeScript, splitFiles, type CodeSnippet } from './code-snippets.js';
+
+/**
+ * Compile-check example code with the installed Svelte compiler
+ *
+ * Every example is classified as a `component` (has a `<script>` block or is a
+ * `.svelte` file), a `module` (script-only code such as a `.svelte.js` file) or a
+ * `fragment` (template markup or script lines taken out of a component). It passes
+ * when every file in it compiles under Svelte 5 without deprecated syntax.
+ */
+
+export type ExampleKind = 'component' | 'module' | 'fragment';
+export type VerificationStatus = 'passed' | 'failed';
+
+export interface ExampleVerification {
+  kind: ExampleKind;
+  status: VerificationStatus;
+  /** Compile errors and deprecated syntax, the reasons an example failed */
+  errors: string[];
+  /** Compiler warnings that do not fail the example (a11y, unused code and so on) */
+  warnings: string[];
+}
+
+/** Identifies the compiler a verification was made with, so upgrades trigger a re-check */
+export const VERIFIER_VERSION = `svelte@${VERSION}`;
+
+/** Compile errors a fragment gets only because the surrounding component is missing */
+const MISSING_CONTEXT_ERRORS = new Set(['svelte/bind_invalid_value']);
+
+/** Runes that only exist inside a component's instance script */
+const COMPONENT_ONLY_RUNES = /\$(?:props|bindable|host)\s*\(|\bexport\s+let\b|^\s*\$:/m;
+
+function classify(file: CodeSnippet): ExampleKind {
+  if (file.filename?.endsWith('.svelte') || looksLikeMarkup(file.code, file.language)) {
+    return /<script[\s>]/.test(file.code) ? 'component' : 'fragment';
+  }
+  if (file.filename || !COMPONENT_ONLY_RUNES.test(file.code)) return 'module';
+  return 'fragment';
+}
+
+function verifyFile(file: CodeSnippet): ExampleVerification {
+  const kind = classify(file);
+  const typescript = looksLikeTypeScript(file.code, file.language) || /\.ts$/.test(file.filename ?? '');
+
+  let result: ReturnType<typeof auditSvelteSource>;
+  if (kind === 'module') {
+    result = auditSvelteSource(file.code, { filename: typescript ? 'Example.svelte.ts' : 'Example.svelte.js' });
+  } else if (looksLikeMarkup(file.code, file.language)) {
+    result = auditSvelteSource(file.code, { filename: 'Example.svelte' });
+  } else {
+    // Script lines from a component are checked inside an instance script
+    result = auditSvelteSource(`<script${typescript ? ' lang="ts"' : ''}>\n${file.code}\n</script>`, { filename: 'Example.svelte' });
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  for (const finding of result.findings) {
+    const message = `${finding.rule}: ${finding.message}`;
+    const deprecated = finding.category === 'legacy' && finding.severity === 'warning';
+    if (kind === 'fragment' && MISSING_CONTEXT_ERRORS.has(finding.rule)) warnings.push(message);
+    else if (finding.severity === 'error' || deprecated) errors.push(message);
+    else warnings.push(message);
+  }
+
+  return { kind, status: errors.length === 0 ? 'passed' : 'failed', errors, warnings };
+}
+
+/**
+ * Classify and compile an example's `output`. Multi-file examples (`<!file: ...>`
+ * markers or several code fences) pass only when every file does.
+ */
+export function verifyExample(output: string): ExampleVerification {
+  const files = codeBlocks(output, true).flatMap(block => splitFiles(block));
+  if (files.length === 0) {
+    return { kind: 'fragment', status: 'failed', errors: ['Example has no code'], warnings: [] };
+  }
+
+  const results = files.map(verifyFile);
+  const kinds = new Set(results.map(result => result.kind));
+  return {
+    kind: kinds.has('component') ? 'component' : kinds.has('module') ? 'module' : 'fragment',
+    status: results.every(result => result.status === 'passed') ? 'passed' : 'failed',
+    errors: results.flatMap(result => result.errors),
+    warnings: results.flatMap(result => result.warnings),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Typo and partial-word handling for full-text queries, driven by the FTS vocabulary
+ */
+
+export type TermMatch =
+  | { kind: 'exact'; term: string }
+  | { kind: 'prefix'; term: string }
+  | { kind: 'corrected'; term: string; distance: number }
+  | { kind: 'unknown'; term: string };
+
+// Shorter words have too many close neighbours for a correction to be trustworthy
+const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * Edits allowed when correcting a word of this length
+ */
+export function maxEditsFor(word: string): number {
+  if (word.length <= 3) return 0;
+  if (word.length <= 5) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up with `max + 1` as soon as the distance is known to exceed `max`
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Match a lowercased query word against the indexed vocabulary (term → document count).
+ * Known words are kept, partial words become prefix matches, and unknown words are
+ * corrected to the closest term, preferring the more common one on ties.
+ */
+export function matchTerm(word: string, vocabulary: Map<string, number>): TermMatch {
+  if (vocabulary.has(word)) return { kind: 'exact', term: word };
+
+  if (word.length >= MIN_PREFIX_LENGTH) {
+    for (const term of vocabulary.keys()) {
+      if (term.startsWith(word)) return { kind: 'prefix', term: word };
+    }
+  }
+
+  const maxEdits = maxEditsFor(word);
+  let best: { term: string; distance: number; documents: number } | null = null;
+  if (maxEdits > 0) {
+    for (const [term, documents] of vocabulary) {
+      const distance = editDistance(word, term, best ? Math.min(best.distance, maxEdits) : maxEdits);
+      if (distance > maxEdits) continue;
+      if (!best || distance < best.distance || (distance === best.distance && documents > best.documents)) {
+        best = { term, distance, documents };
+      }
+    }
+  }
+
+  return best ? { kind: 'corrected', term: best.term, distance: best.distance } : { kind: 'unknown', term: word };
+}
@@ -0,0 +1,128 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+
+/**
+ * Minimal .gitignore matcher (globs, `**`, anchoring, directory-only and negated patterns)
+ */
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export interface IgnoreMatcher {
+  baseDir: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Convert a single gitignore glob into a regular expression
+ */
+function globToRegex(glob: string): string {
+  let regex = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (glob[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        regex += '[' + glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+        i = close;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      regex += '\\' + glob[++i];
+    } else {
+      regex += char.replace(/[.+^${}()|\]\\/]/g, '\\$&');
+    }
+  }
+
+  return regex;
+}
+
+/**
+ * Parse the contents of a .gitignore file
+ */
+export function parseGitignore(content: string, baseDir: string): IgnoreMatcher {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    let line = rawLine.replace(/\r$/, '');
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    // Trailing spaces are ignored unless escaped
+    line = line.replace(/(?<!\\)\s+$/, '');
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) continue;
+
+    const body = globToRegex(line);
+    rules.push({
+      regex: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return { baseDir, rules };
+}
+
+/**
+ * Load `<dir>/.gitignore` if present
+ */
+export function loadGitignore(dir: string): IgnoreMatcher | null {
+  const filePath = join(dir, '.gitignore');
+  if (!existsSync(filePath)) return null;
+
+  try {
+    return parseGitignore(readFileSync(filePath, 'utf-8'), dir);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a path against a stack of matchers (outermost first); the last matching rule wins
+ */
+export function isIgnored(matchers: IgnoreMatcher[], absolutePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+
+  for (const matcher of matchers) {
+    const relativePath = relative(matcher.baseDir, absolutePath).split(sep).join('/');
+    if (!relativePath || relativePath.startsWith('..')) continue;
+
+    for (const rule of matcher.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(relativePath)) ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
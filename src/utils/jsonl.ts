@@ -1,5 +1,7 @@
-import { readFileSync, existsSync, readdirSync, statSync } from 'fs';
-import { join } from 'path';
+import { appendFileSync, readFileSync, existsSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import type { ZodType } from 'zod';
+import { logger } from './logger.js';
 
 /**
  * Utility functions for handling JSONL (JSON Lines) files
@@ -45,13 +47,58 @@ export function readJSONL<T = any>(filePath: string, options: JSONLReadOptions =
         throw new Error(`Invalid JSON on line ${i + 1} in ${filePath}: ${error}`);
       }
       // Skip invalid lines if validation is disabled
-      console.warn(`Skipping invalid JSON on line ${i + 1} in ${filePath}: ${line}`);
+      logger.warning(`Skipping invalid JSON on line ${i + 1} in ${filePath}: ${line}`);
     }
   }
 
   return results;
 }
 
+export interface JSONLEntry<T> {
+  data: T;
+  line: number;
+}
+
+/**
+ * Read a JSONL file keeping the 1-based line number of every entry
+ */
+export function readJSONLEntries<T = any>(filePath: string, options: JSONLReadOptions = {}): JSONLEntry<T>[] {
+  const {
+    encoding = 'utf-8',
+    validate = true
+  } = options;
+
+  if (!existsSync(filePath)) {
+    throw new Error(`JSONL file not found: ${filePath}`);
+  }
+
+  const lines = readFileSync(filePath, encoding).split('\n');
+  const results: JSONLEntry<T>[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    try {
+      results.push({ data: JSON.parse(line), line: i + 1 });
+    } catch (error) {
+      if (validate) {
+        throw new Error(`Invalid JSON on line ${i + 1} in ${filePath}: ${error}`);
+      }
+      logger.warning(`Skipping invalid JSON on line ${i + 1} in ${filePath}: ${line}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Category of a JSONL file, i.e. its name without the extension (`runes.jsonl` → `runes`)
+ */
+export function getJsonlCategory(filePath: string): string {
+  return basename(filePath, '.jsonl');
+}
+
 /**
  * Convert a JSON array to JSONL format string
  */
@@ -64,7 +111,7 @@ export function arrayToJSONL<T = any>(data: T[]): string {
  */
 export function writeJSONL<T = any>(filePath: string, data: T[], encoding: BufferEncoding = 'utf-8'): void {
   const content = arrayToJSONL(data);
-  require('fs').writeFileSync(filePath, content, encoding);
+  writeFileSync(filePath, content, encoding);
 }
 
 /**
@@ -72,7 +119,7 @@ export function writeJSONL<T = any>(filePath: string, data: T[], encoding: Buffe
  */
 export function appendToJSONL<T = any>(filePath: string, item: T, encoding: BufferEncoding = 'utf-8'): void {
   const line = JSON.stringify(item) + '\n';
-  require('fs').appendFileSync(filePath, line, encoding);
+  appendFileSync(filePath, line, encoding);
 }
 
 /**
@@ -106,24 +153,71 @@ export function* streamJSONL<T = any>(filePath: string, options: JSONLReadOption
       if (validate) {
         throw new Error(`Invalid JSON on line ${i + 1} in ${filePath}: ${error}`);
       }
-      console.warn(`Skipping invalid JSON on line ${i + 1} in ${filePath}: ${line}`);
+      logger.warning(`Skipping invalid JSON on line ${i + 1} in ${filePath}: ${line}`);
     }
   }
 }
 
+export interface JSONLIssue {
+  line: number;
+  message: string;
+}
+
 /**
- * Validate JSONL file format
+ * Validate JSONL file format, and each entry against `schema` when given.
+ * Every bad line is reported, not just the first; entries that pass are returned.
  */
-export function validateJSONL(filePath: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
+export function validateJSONL<T = any>(filePath: string, schema?: ZodType<T>): {
+  valid: boolean;
+  errors: string[];
+  issues: JSONLIssue[];
+  entries: JSONLEntry<T>[];
+} {
+  const issues: JSONLIssue[] = [];
+  const entries: JSONLEntry<T>[] = [];
+
+  let lines: string[];
   try {
-    readJSONL(filePath, { validate: true });
-    return { valid: true, errors: [] };
+    lines = readFileSync(filePath, 'utf-8').split('\n');
   } catch (error) {
-    errors.push(error instanceof Error ? error.message : String(error));
-    return { valid: false, errors };
+    const message = error instanceof Error ? error.message : String(error);
+    return { valid: false, errors: [message], issues: [{ line: 0, message }], entries };
   }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      issues.push({ line: i + 1, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      continue;
+    }
+
+    if (!schema) {
+      entries.push({ data: parsed as T, line: i + 1 });
+      continue;
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+      entries.push({ data: result.data, line: i + 1 });
+    } else {
+      for (const issue of result.error.issues) {
+        const path = issue.path.length > 0 ? `"${issue.path.join('.')}": ` : '';
+        issues.push({ line: i + 1, message: `${path}${issue.message}` });
+      }
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    errors: issues.map(issue => `Line ${issue.line} in ${filePath}: ${issue.message}`),
+    issues,
+    entries,
+  };
 }
 
 /**
@@ -162,7 +256,7 @@ export function scanJsonlFiles(dirPath: string): string[] {
       }
     }
   } catch (error) {
-    console.warn(`Warning: Could not scan directory ${dirPath}:`, error);
+    logger.warning(`Could not scan directory ${dirPath}`, error);
   }
 
   return files.sort(); // Sort for consistent order
@@ -179,9 +273,9 @@ export function loadJsonlFromDirectory<T = any>(dirPath: string, options: JSONLR
     try {
       const data = readJSONL<T>(filePath, options);
       allData.push(...data);
-      console.log(`📁 Loaded ${data.length} entries from ${filePath.split('/').pop()}`);
+      logger.debug(`📁 Loaded ${data.length} entries from ${filePath.split('/').pop()}`);
     } catch (error) {
-      console.error(`❌ Error loading ${filePath}:`, error);
+      logger.error(`❌ Error loading ${filePath}`, error);
     }
   }
 
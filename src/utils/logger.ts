@@ -0,0 +1,161 @@
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { getConfigDirectory } from './config.js';
+
+/**
+ * Logging subsystem
+ *
+ * Never writes to stdout: on the stdio transport stdout carries the JSON-RPC
+ * stream. Messages go to stderr or a log file, and are forwarded to connected
+ * MCP clients as `notifications/message` at the level they asked for via
+ * `logging/setLevel`.
+ */
+
+export type LogLevel = LoggingLevel;
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency',
+];
+
+export const DEFAULT_LOG_FILE_NAME = 'svelte5-mcp.log';
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  /** Log file path; `true` uses the default file in the config directory */
+  file?: string | boolean;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function severity(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+function formatData(data: unknown): string {
+  if (data === undefined) return '';
+  if (data instanceof Error) return ` ${data.stack || data.message}`;
+  try {
+    return ` ${JSON.stringify(data)}`;
+  } catch {
+    return ` ${String(data)}`;
+  }
+}
+
+class Logger {
+  private level: LogLevel = 'info';
+  private file: string | boolean = false;
+  private resolvedFile: string | null = null;
+  private resolvingFile = false;
+  // Connected servers and the level each client asked for (null until logging/setLevel)
+  private clients = new Map<Server, LogLevel | null>();
+
+  constructor() {
+    const envLevel = process.env.SVELTE5_MCP_LOG_LEVEL?.toLowerCase();
+    if (isLogLevel(envLevel)) this.level = envLevel;
+
+    const envFile = process.env.SVELTE5_MCP_LOG_FILE;
+    if (envFile) this.file = envFile === '1' || envFile === 'true' ? true : envFile;
+  }
+
+  configure(options: LoggerOptions) {
+    if (options.level) this.level = options.level;
+    if (options.file !== undefined) {
+      this.file = options.file;
+      this.resolvedFile = null;
+    }
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  getLogFile(): string | null {
+    if (!this.file) return null;
+    if (!this.resolvedFile) {
+      // Resolving the config directory may itself log a warning; use stderr meanwhile
+      if (this.resolvingFile) return null;
+      this.resolvingFile = true;
+      try {
+        this.resolvedFile = this.file === true ? join(getConfigDirectory(), DEFAULT_LOG_FILE_NAME) : this.file;
+      } finally {
+        this.resolvingFile = false;
+      }
+    }
+    return this.resolvedFile;
+  }
+
+  /**
+   * Forward log messages to a connected MCP server's client
+   */
+  attach(server: Server) {
+    this.clients.set(server, null);
+  }
+
+  detach(server: Server) {
+    this.clients.delete(server);
+  }
+
+  /**
+   * Record the level a client requested through `logging/setLevel`
+   */
+  setClientLevel(server: Server, level: LogLevel) {
+    this.clients.set(server, level);
+  }
+
+  log(level: LogLevel, message: string, data?: unknown) {
+    if (severity(level) >= severity(this.level)) {
+      this.write(`${new Date().toISOString()} [${level}] ${message}${formatData(data)}\n`);
+    }
+
+    for (const [server, clientLevel] of this.clients) {
+      if (severity(level) < severity(clientLevel ?? this.level)) continue;
+      server.sendLoggingMessage({
+        level,
+        logger: 'svelte5-mcp',
+        data: data === undefined ? message : { message, data: data instanceof Error ? data.message : data },
+      }).catch(() => {
+        // The client went away; nothing useful to do with the message
+      });
+    }
+  }
+
+  debug(message: string, data?: unknown) {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: unknown) {
+    this.log('info', message, data);
+  }
+
+  notice(message: string, data?: unknown) {
+    this.log('notice', message, data);
+  }
+
+  warning(message: string, data?: unknown) {
+    this.log('warning', message, data);
+  }
+
+  error(message: string, data?: unknown) {
+    this.log('error', message, data);
+  }
+
+  private write(line: string) {
+    const file = this.getLogFile();
+    if (file) {
+      try {
+        mkdirSync(dirname(file), { recursive: true });
+        appendFileSync(file, line, 'utf-8');
+        return;
+      } catch {
+        // Fall back to stderr if the log file is not writable
+      }
+    }
+    process.stderr.write(line);
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,57 @@
+/**
+ * Svelte runes, template tags, directives and APIs mentioned in an entry
+ *
+ * Knowledge entries and examples that mention the same rarely used symbols are
+ * linked at sync time, so an answer about `$derived.by` comes with examples
+ * that use it.
+ */
+
+/** `$derived.by` also counts as a mention of `$derived` */
+const RUNE = /\$(state|derived|effect|props|bindable|inspect|host)(?:\.(raw|snapshot|by|pre|root|tracking|pending|trace|with|eager|id))?(?![\w$])/g;
+
+const TEMPLATE_TAG = /\{([#@])(snippet|render|attach|html|const|debug|each|await|key)\b/g;
+
+const SPECIAL_ELEMENT = /<svelte:(\w+)/g;
+
+const DIRECTIVE = /(?<![\w-])(bind|use|transition|animate|on):\w/g;
+
+/** API names unlikely to appear as ordinary words */
+const DISTINCT_APIS = [
+  'onMount', 'onDestroy', 'beforeUpdate', 'afterUpdate', 'flushSync', 'createEventDispatcher',
+  'getContext', 'setContext', 'hasContext', 'getAllContexts', 'createContext', 'createSubscriber',
+  'createRawSnippet', 'SvelteMap', 'SvelteSet', 'SvelteDate', 'SvelteURL', 'SvelteURLSearchParams',
+  'MediaQuery', 'fromStore', 'toStore', 'getAbortSignal',
+];
+
+/** API names that double as English words, counted only when called or in a code span */
+const WORD_APIS = ['untrack', 'tick', 'settled', 'mount', 'unmount', 'hydrate', 'writable', 'readable', 'tweened', 'spring'];
+
+const DISTINCT_API = new RegExp(`(?<![\\w$.])(${DISTINCT_APIS.join('|')})\\b`, 'g');
+const WORD_API = new RegExp(`(?<![\\w$.])(${WORD_APIS.join('|')})(?=\\s*\\(|\`)`, 'g');
+
+export function extractMentions(text: string): Set<string> {
+  const mentions = new Set<string>();
+
+  for (const [, rune, member] of text.matchAll(RUNE)) {
+    mentions.add(`$${rune}`);
+    if (member) mentions.add(`$${rune}.${member}`);
+  }
+  for (const [, sigil, tag] of text.matchAll(TEMPLATE_TAG)) mentions.add(`{${sigil}${tag}}`);
+  for (const [, element] of text.matchAll(SPECIAL_ELEMENT)) mentions.add(`<svelte:${element}>`);
+  for (const [, directive] of text.matchAll(DIRECTIVE)) mentions.add(`${directive}:`);
+  for (const [, api] of text.matchAll(DISTINCT_API)) mentions.add(api);
+  for (const [, api] of text.matchAll(WORD_API)) mentions.add(api);
+
+  return mentions;
+}
+
+/**
+ * Mentions of an entry with their weight: twice as much when its title (question
+ * or instruction) names them, since that is what the entry is about
+ */
+export function weighMentions(title: string, body: string): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const mention of extractMentions(body)) weights.set(mention, 1);
+  for (const mention of extractMentions(title)) weights.set(mention, 2);
+  return weights;
+}
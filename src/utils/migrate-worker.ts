@@ -0,0 +1,15 @@
+import { parentPort, workerData } from 'worker_threads';
+import { migrate } from 'svelte/compiler';
+
+/**
+ * Runs the compiler's migrate() for `migrateSvelteSource` on a worker thread,
+ * which can be terminated when the migration never returns
+ */
+
+const { code, filename } = workerData as { code: string; filename: string };
+
+try {
+  parentPort!.postMessage({ code: migrate(code, { filename }).code });
+} catch (error) {
+  parentPort!.postMessage({ error: error instanceof Error ? error.message : String(error) });
+}
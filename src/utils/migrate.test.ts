@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { migrateSvelteSource } from './migrate.js';
+
+describe('migrateSvelteSource', () => {
+  // The compiler's migrate() never returns when a `$:` statement ends right before `</script>`
+  test.each([
+    '<script>export let a; $: b = a*2;</script><button on:click={()=>a++}>{b}</button>',
+    '<script>\nexport let a; $: b = a*2;</script><button on:click={()=>a++}>{b}</button>',
+  ])('flags a migration that does not finish instead of blocking: %p', async (code) => {
+    const result = await migrateSvelteSource(code, { timeoutMs: 2000 });
+
+    expect(result.changed).toBe(false);
+    expect(result.code).toBe(code);
+    expect(result.flagged[0].reason).toStartWith('Unable to migrate safely');
+  }, 10000);
+
+  test('flags a migration whose output does not compile', async () => {
+    const code = '<script>\nexport let a; $: b = a*2;\n</script><button on:click={()=>a++}>{b}</button>';
+    const result = await migrateSvelteSource(code);
+
+    expect(result.changed).toBe(false);
+    expect(result.code).toBe(code);
+    expect(result.flagged[0].reason).toStartWith('Unable to migrate safely');
+  });
+
+  test('migrates the same component laid out on separate lines', async () => {
+    const result = await migrateSvelteSource('<script>\n  export let a;\n  $: b = a * 2;\n</script>\n\n<button on:click={() => a++}>{b}</button>\n');
+
+    expect(result.flagged).toEqual([]);
+    expect(result.code).toContain('let b = $derived(a * 2);');
+  });
+
+  test('adds dispatched events to the Props typedef as callback props', async () => {
+    const result = await migrateSvelteSource([
+      '<script>',
+      "  import { createEventDispatcher } from 'svelte';",
+      '  /** @type {string} */',
+      "  export let label = 'a';",
+      '  const dispatch = createEventDispatcher();',
+      '</script>',
+      '',
+      "<button on:click={() => dispatch('select', label)}>{label}</button>",
+      "<button on:click={() => dispatch('clear')}>x</button>",
+      '',
+    ].join('\n'));
+
+    expect(result.code).toStartWith('<script>\n  /**\n');
+    expect(result.code).toContain('   * @property {(detail: any) => void} [onselect]\n   * @property {() => void} [onclear]\n');
+    expect(result.code).toContain("let { label = 'a', onselect, onclear } = $props();");
+  });
+});
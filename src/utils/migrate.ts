@@ -0,0 +1,662 @@
+import { compile, parse } from 'svelte/compiler';
+import { Worker } from 'worker_threads';
+import { createLocator, declaredNames, getRuneName, isTypeScriptScript, walk, type Node } from './svelte-ast.js';
+
+/**
+ * Svelte 4 → 5 component migration
+ *
+ * The heavy lifting is done by the compiler's own `migrate()`. On top of that we
+ * convert the patterns it deliberately leaves alone (`run()` shims, event
+ * dispatchers, component-local writable stores) when that can be done safely,
+ * and flag everything else for manual review.
+ */
+
+/** How long the compiler's migrate() may run; some valid Svelte 4 input makes it loop forever */
+export const MIGRATE_TIMEOUT_MS = 5000;
+
+export type MigrationKind =
+  | 'props'
+  | 'rest-props'
+  | 'state'
+  | 'derived'
+  | 'effect'
+  | 'event-attribute'
+  | 'snippet'
+  | 'callback-prop'
+  | 'store';
+
+export interface MigrationChange {
+  kind: MigrationKind;
+  description: string;
+  original_line?: number;
+  knowledge_query: string;
+}
+
+export interface MigrationFlag {
+  reason: string;
+  line?: number;
+  knowledge_query: string;
+}
+
+export interface MigrationResult {
+  filename: string;
+  code: string;
+  changed: boolean;
+  changes: MigrationChange[];
+  flagged: MigrationFlag[];
+}
+
+export const MIGRATION_QUERIES: Record<MigrationKind, string> = {
+  'props': '$props',
+  'rest-props': '$props',
+  'state': '$state',
+  'derived': '$derived',
+  'effect': '$effect',
+  'event-attribute': 'onclick',
+  'snippet': 'snippets',
+  'callback-prop': 'callback props',
+  'store': 'stores',
+};
+
+const LEGACY_SHIM_ADVICE: Record<string, string> = {
+  run: 'kept as `run()` because converting it to `$effect` changed its timing; review and replace with `$effect` or `$derived`',
+  createBubbler: 'forwards events via `createBubbler`; accept an `on<event>` callback prop instead',
+  handlers: 'combines handlers via `handlers()`; call them from a single inline handler instead',
+};
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyEdits(code: string, edits: Edit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  let result = code;
+  let boundary = Infinity;
+
+  for (const edit of sorted) {
+    if (edit.end > boundary) {
+      throw new Error(`Overlapping edits at offset ${edit.start}`);
+    }
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    boundary = edit.start;
+  }
+
+  return result;
+}
+
+/**
+ * Remove a whole statement, including its indentation and line break
+ */
+function removeStatement(code: string, node: Node): Edit {
+  let start = node.start!;
+  let end = node.end!;
+  const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+  if (/^[ \t]*$/.test(code.slice(lineStart, start))) start = lineStart;
+  if (code[end] === '\n') end++;
+
+  // Leave no blank line at the top of the script or next to another blank line
+  const blankLine = /^[ \t]*\n/.exec(code.slice(end));
+  const before = code.slice(0, start);
+  if (blankLine && (/<script\b[^>]*>[ \t]*\n$/.test(before) || /\n[ \t]*\n$/.test(before))) end += blankLine[0].length;
+
+  return { start, end, text: '' };
+}
+
+/**
+ * Add `@property` lines after the last property of a JSDoc `Props` typedef in the script; null when there is none
+ */
+function addTypedefProperties(code: string, script: Node, properties: string[]): Edit | null {
+  const start = script.content.start;
+  const typedef = /@typedef\s+\{Object\}\s+Props\b[\s\S]*?\*\//.exec(code.slice(start, script.content.end));
+  const last = typedef ? [...typedef[0].matchAll(/^([ \t]*\*[ \t]*)@property\b.*$/gm)].pop() : undefined;
+  if (!typedef || !last) return null;
+
+  const offset = start + typedef.index + last.index! + last[0].length;
+  return { start: offset, end: offset, text: properties.map(property => `\n${last[1]}@property ${property}`).join('') };
+}
+
+/**
+ * Drop some specifiers from an import declaration, or the whole import if none remain
+ */
+function removeImportSpecifiers(code: string, declaration: Node, names: Set<string>): Edit {
+  const remaining = (declaration.specifiers as Node[]).filter(s => !names.has(s.local.name));
+  if (remaining.length === 0) return removeStatement(code, declaration);
+
+  const defaultSpecifier = remaining.find(s => s.type !== 'ImportSpecifier');
+  const named = remaining.filter(s => s.type === 'ImportSpecifier').map(s => code.slice(s.start, s.end));
+  const clause = [
+    defaultSpecifier ? code.slice(defaultSpecifier.start, defaultSpecifier.end) : null,
+    named.length > 0 ? `{ ${named.join(', ')} }` : null,
+  ].filter(Boolean).join(', ');
+  const source = code.slice(declaration.source.start, declaration.source.end);
+  const semicolon = code[declaration.end! - 1] === ';' ? ';' : '';
+
+  return { start: declaration.start!, end: declaration.end!, text: `import ${clause} from ${source}${semicolon}` };
+}
+
+function findImport(script: Node | null, source: string, imported: string) {
+  for (const statement of (script?.content.body ?? []) as Node[]) {
+    if (statement.type !== 'ImportDeclaration' || statement.source?.value !== source) continue;
+    const specifier = (statement.specifiers as Node[]).find(s => s.imported?.name === imported);
+    if (specifier) return { declaration: statement, local: specifier.local.name as string };
+  }
+  return null;
+}
+
+function findPropsDeclarator(script: Node | null): Node | null {
+  for (const statement of (script?.content.body ?? []) as Node[]) {
+    if (statement.type !== 'VariableDeclaration') continue;
+    for (const declarator of statement.declarations as Node[]) {
+      if (getRuneName(declarator.init?.callee) === '$props' && declarator.id?.type === 'ObjectPattern') {
+        return declarator;
+      }
+    }
+  }
+  return null;
+}
+
+function eventPropName(event: string): string {
+  return 'on' + event.toLowerCase().replace(/[^a-z0-9_$]/g, '');
+}
+
+interface OriginalScan {
+  changes: MigrationChange[];
+  plainLets: Map<string, number>;
+  derivedCandidates: Map<string, MigrationChange>;
+  dispatchLines: Map<string, number>;
+  storeLines: Map<string, number>;
+}
+
+/**
+ * Record the Svelte 4 constructs present in the original source
+ */
+function scanOriginal(code: string, ast: any): OriginalScan {
+  const locate = createLocator(code);
+  const lineOf = (node: Node) => locate(node.start!).line;
+  const scan: OriginalScan = {
+    changes: [],
+    plainLets: new Map(),
+    derivedCandidates: new Map(),
+    dispatchLines: new Map(),
+    storeLines: new Map(),
+  };
+  const add = (kind: MigrationKind, description: string, node: Node) => {
+    const change = { kind, description, original_line: lineOf(node), knowledge_query: MIGRATION_QUERIES[kind] };
+    scan.changes.push(change);
+    return change;
+  };
+
+  const dispatcher = findImport(ast.instance, 'svelte', 'createEventDispatcher');
+  let dispatchName: string | null = null;
+
+  for (const statement of (ast.instance?.content.body ?? []) as Node[]) {
+    if (statement.type === 'ExportNamedDeclaration') {
+      if (statement.declaration?.type === 'VariableDeclaration' && statement.declaration.kind === 'let') {
+        for (const declarator of statement.declaration.declarations as Node[]) {
+          add('props', `\`export let ${declarator.id.name}\` → destructured from \`$props()\``, statement);
+        }
+      }
+      for (const specifier of (statement.specifiers ?? []) as Node[]) {
+        add('props', `\`export { ${specifier.local.name} as ${specifier.exported.name} }\` → renamed \`$props()\` property`, statement);
+      }
+    }
+
+    if (statement.type === 'LabeledStatement' && statement.label?.name === '$') {
+      const expression = statement.body?.type === 'ExpressionStatement' ? statement.body.expression : null;
+      if (expression?.type === 'AssignmentExpression' && expression.operator === '=' && expression.left?.type === 'Identifier') {
+        const change = add('derived', `\`$: ${expression.left.name} = …\` → \`let ${expression.left.name} = $derived(…)\``, statement);
+        scan.derivedCandidates.set(expression.left.name, change);
+      } else {
+        add('effect', '`$:` reactive statement → `$effect(() => { … })`', statement);
+      }
+    }
+
+    if (statement.type === 'VariableDeclaration') {
+      for (const declarator of statement.declarations as Node[]) {
+        if (declarator.id?.type !== 'Identifier') continue;
+        const callee = declarator.init?.callee;
+        if (statement.kind === 'let' && !getRuneName(callee)) {
+          scan.plainLets.set(declarator.id.name, lineOf(statement));
+        }
+        if (dispatcher && callee?.type === 'Identifier' && callee.name === dispatcher.local) {
+          dispatchName = declarator.id.name;
+        }
+        if (callee?.type === 'Identifier' && callee.name === 'writable') {
+          scan.storeLines.set(declarator.id.name, lineOf(statement));
+        }
+      }
+    }
+  }
+
+  walk(ast, (node) => {
+    switch (node.type) {
+      case 'OnDirective':
+        add('event-attribute', `\`on:${node.name}\` → \`on${node.name}\` attribute${node.modifiers?.length ? ` (modifiers: ${node.modifiers.join(', ')})` : ''}`, node);
+        break;
+      case 'SlotElement': {
+        const nameAttribute = (node.attributes as Node[]).find(a => a.type === 'Attribute' && a.name === 'name');
+        const slotName = nameAttribute?.value?.[0]?.data;
+        add('snippet', slotName
+          ? `\`<slot name="${slotName}">\` → \`{@render ${slotName}?.()}\` snippet prop`
+          : '`<slot />` → `{@render children?.()}`', node);
+        break;
+      }
+      case 'Attribute':
+        if (node.name === 'slot') {
+          add('snippet', `\`slot="${node.value?.[0]?.data ?? ''}"\` content → \`{#snippet}\` block`, node);
+        }
+        break;
+      case 'LetDirective':
+        add('snippet', `\`let:${node.name}\` → snippet parameter`, node);
+        break;
+      case 'Identifier':
+        if (node.name === '$$props' || node.name === '$$restProps') {
+          add('rest-props', `\`${node.name}\` → \`...rest\` from \`$props()\``, node);
+        } else if (node.name === '$$slots') {
+          add('snippet', '`$$slots` → check the snippet props directly', node);
+        }
+        break;
+      case 'CallExpression':
+        if (dispatchName && node.callee?.type === 'Identifier' && node.callee.name === dispatchName) {
+          const event = node.arguments?.[0];
+          if (event?.type === 'Literal' && typeof event.value === 'string' && !scan.dispatchLines.has(event.value)) {
+            scan.dispatchLines.set(event.value, lineOf(node));
+          }
+        }
+        break;
+    }
+  });
+
+  return scan;
+}
+
+interface PostProcessResult {
+  code: string;
+  changes: MigrationChange[];
+  flagged: MigrationFlag[];
+}
+
+/**
+ * Translate an offset in the pre-edit code to the matching offset after the edits
+ */
+function mapOffset(offset: number, edits: Edit[]): number {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.end <= offset) shift += edit.text.length - (edit.end - edit.start);
+  }
+  return offset + shift;
+}
+
+/**
+ * Convert what the compiler's migrate() leaves as legacy code
+ */
+function postProcess(code: string, scan: OriginalScan): PostProcessResult {
+  const ast: any = parse(code, { modern: true });
+  const instance: Node | null = ast.instance;
+  const edits: Edit[] = [];
+  const importRemovals = new Map<Node, Set<string>>();
+  const changes: MigrationChange[] = [];
+  const pendingFlags: { reason: string; offset?: number; query: string }[] = [];
+  const flag = (reason: string, node: Node | null, query: string) => {
+    pendingFlags.push({ reason, offset: node?.start, query });
+  };
+  const removeImport = (declaration: Node, local: string) => {
+    if (!importRemovals.has(declaration)) importRemovals.set(declaration, new Set());
+    importRemovals.get(declaration)!.add(local);
+  };
+
+  const identifiers: Node[] = [];
+  const calls: Node[] = [];
+  walk(ast, (node) => {
+    if (node.type === 'Identifier') identifiers.push(node);
+    if (node.type === 'CallExpression') calls.push(node);
+  });
+
+  // run(() => ...) from svelte/legacy → $effect(() => ...)
+  const run = findImport(instance, 'svelte/legacy', 'run');
+  if (run) {
+    const runCalls = calls.filter(c => c.callee?.type === 'Identifier' && c.callee.name === run.local);
+    const otherUses = identifiers.filter(i => i.name === run.local).length - runCalls.length - 1;
+    if (otherUses === 0) {
+      for (const call of runCalls) {
+        edits.push({ start: call.callee.start, end: call.callee.end, text: '$effect' });
+      }
+      removeImport(run.declaration, run.local);
+    }
+  }
+
+  // createEventDispatcher → callback props
+  const dispatcher = findImport(instance, 'svelte', 'createEventDispatcher');
+  if (dispatcher) {
+    const declaration = ((instance?.content.body ?? []) as Node[]).find(statement =>
+      statement.type === 'VariableDeclaration' &&
+      statement.declarations.length === 1 &&
+      statement.declarations[0].id?.type === 'Identifier' &&
+      statement.declarations[0].init?.callee?.name === dispatcher.local
+    );
+    const dispatchName: string | undefined = declaration?.declarations[0].id.name;
+    const dispatchCalls = calls.filter(c => c.callee?.type === 'Identifier' && c.callee.name === dispatchName);
+    const literalEvents = dispatchCalls.every(c =>
+      c.arguments.length >= 1 && c.arguments.length <= 2 &&
+      c.arguments[0].type === 'Literal' && typeof c.arguments[0].value === 'string'
+    );
+    const otherUses = identifiers.filter(i => i.name === dispatchName).length - dispatchCalls.length - 1;
+    const propsDeclarator = findPropsDeclarator(instance);
+    const existingProps = new Set<string>(
+      (propsDeclarator?.id.properties ?? []).map((p: Node) => p.key?.name).filter(Boolean)
+    );
+    const events = [...new Set(dispatchCalls.map(c => c.arguments[0].value as string))];
+    const propNames = events.map(eventPropName);
+    const conflicts = propNames.filter(name => existingProps.has(name));
+
+    if (!declaration || !literalEvents || otherUses !== 0) {
+      flag('`createEventDispatcher` is used dynamically (computed event names or the dispatcher is passed around); replace it with callback props by hand', declaration ?? dispatcher.declaration, MIGRATION_QUERIES['callback-prop']);
+    } else if (isTypeScriptScript(instance)) {
+      flag(`\`createEventDispatcher\` in a TypeScript component: add ${propNames.map(n => `\`${n}\``).join(', ')} to the \`Props\` type and call them instead of \`${dispatchName}()\``, declaration, MIGRATION_QUERIES['callback-prop']);
+    } else if (conflicts.length > 0) {
+      flag(`Callback prop name${conflicts.length > 1 ? 's' : ''} ${conflicts.map(n => `\`${n}\``).join(', ')} already exist${conflicts.length > 1 ? '' : 's'}; convert \`${dispatchName}()\` calls by hand`, declaration, MIGRATION_QUERIES['callback-prop']);
+    } else {
+      for (const call of dispatchCalls) {
+        const prop = eventPropName(call.arguments[0].value);
+        const detail = call.arguments[1];
+        edits.push(detail
+          ? { start: call.start!, end: detail.start, text: `${prop}?.(` }
+          : { start: call.start!, end: call.end!, text: `${prop}?.()` });
+      }
+
+      if (propsDeclarator && propNames.length > 0) {
+        const properties = propsDeclarator.id.properties as Node[];
+        const rest = properties.find(p => p.type === 'RestElement');
+        const last = properties.filter(p => p.type !== 'RestElement').pop();
+        if (rest) {
+          edits.push({ start: rest.start!, end: rest.start!, text: `${propNames.join(', ')}, ` });
+        } else if (last) {
+          edits.push({ start: last.end!, end: last.end!, text: `, ${propNames.join(', ')}` });
+        } else {
+          edits.push({ start: propsDeclarator.id.start + 1, end: propsDeclarator.id.end - 1, text: ` ${propNames.join(', ')} ` });
+        }
+        // Handlers receive the detail value, or nothing when no call passes one
+        const typedef = addTypedefProperties(code, instance!, events.map((event, index) => {
+          const withDetail = dispatchCalls.some(call => call.arguments[0].value === event && call.arguments.length > 1);
+          return `{${withDetail ? '(detail: any) => void' : '() => void'}} [${propNames[index]}]`;
+        }));
+        if (typedef) edits.push(typedef);
+        edits.push(removeStatement(code, declaration));
+      } else if (propNames.length > 0) {
+        edits.push({ start: declaration.start!, end: declaration.end!, text: `let { ${propNames.join(', ')} } = $props();` });
+      } else {
+        edits.push(removeStatement(code, declaration));
+      }
+      removeImport(dispatcher.declaration, dispatcher.local);
+
+      for (const [index, event] of events.entries()) {
+        changes.push({
+          kind: 'callback-prop',
+          description: `\`${dispatchName}('${event}', …)\` → \`${propNames[index]}\` callback prop (handlers now receive the detail value instead of a CustomEvent)`,
+          original_line: scan.dispatchLines.get(event),
+          knowledge_query: MIGRATION_QUERIES['callback-prop'],
+        });
+      }
+    }
+  }
+
+  // Component-local writable stores only read through `$store` → $state
+  const writable = findImport(instance, 'svelte/store', 'writable');
+  let convertedStores = 0;
+  let storeDeclarations = 0;
+  const convertedNames = new Set<string>();
+  // Local stores left as stores, with the reason
+  const refusedStores = new Map<string, string>();
+  if (writable) {
+    for (const statement of (instance?.content.body ?? []) as Node[]) {
+      if (statement.type !== 'VariableDeclaration' || statement.declarations.length !== 1) continue;
+      const declarator = statement.declarations[0];
+      if (declarator.id?.type !== 'Identifier' || declarator.init?.callee?.name !== writable.local) continue;
+      storeDeclarations++;
+
+      const name: string = declarator.id.name;
+      const directUses = identifiers.filter(i => i.name === name && i !== declarator.id);
+      if (directUses.length > 0) {
+        flag(`Store \`${name}\` is used directly (\`.set()\`, \`.update()\` or passed around); move it to \`$state\` by hand`, statement, MIGRATION_QUERIES.store);
+        refusedStores.set(name, 'it is used directly (`.set()`, `.update()` or passed around)');
+        continue;
+      }
+
+      edits.push({ start: statement.start!, end: statement.start! + statement.kind.length, text: 'let' });
+      edits.push({ start: declarator.init.callee.start, end: declarator.init.callee.end, text: '$state' });
+      for (const identifier of identifiers.filter(i => i.name === `$${name}`)) {
+        edits.push({ start: identifier.start!, end: identifier.end!, text: name });
+      }
+      convertedStores++;
+      convertedNames.add(name);
+      changes.push({
+        kind: 'store',
+        description: `\`writable\` store \`${name}\` (read as \`$${name}\`) → \`let ${name} = $state(…)\``,
+        original_line: scan.storeLines.get(name),
+        knowledge_query: MIGRATION_QUERIES.store,
+      });
+    }
+
+    const otherWritableUses = identifiers.filter(i => i.name === writable.local).length - 1 - storeDeclarations;
+    if (convertedStores > 0 && convertedStores === storeDeclarations && otherWritableUses === 0) {
+      removeImport(writable.declaration, writable.local);
+    }
+  }
+
+  // Remaining store subscriptions (imported, readable or derived stores); `$`-prefixed parameters and locals are not subscriptions
+  const declared = declaredNames(ast);
+  const flaggedStores = new Set<string>();
+  for (const identifier of identifiers) {
+    const match = /^\$([A-Za-z_]\w*)$/.exec(identifier.name);
+    if (!match || getRuneName(identifier) || declared.has(identifier.name)) continue;
+    const name = match[1];
+    if (convertedNames.has(name) || flaggedStores.has(name)) continue;
+    flaggedStores.add(name);
+
+    if (refusedStores.has(name)) {
+      flag(`\`${identifier.name}\` reads \`${name}\`, a store declared in this component that was not converted to \`$state\` because ${refusedStores.get(name)}`, identifier, MIGRATION_QUERIES.store);
+    } else if (declared.has(name)) {
+      flag(`\`${identifier.name}\` reads \`${name}\`, a store declared in this component; only \`writable\` stores declared on their own and read through \`${identifier.name}\` alone are converted, so move it to \`$state\` or \`$derived\` by hand`, identifier, MIGRATION_QUERIES.store);
+    } else {
+      flag(`\`${identifier.name}\` subscribes to a store defined elsewhere; convert the store module to a \`.svelte.js\` rune module and import the state instead`, identifier, MIGRATION_QUERIES.store);
+    }
+  }
+
+  for (const [declaration, names] of importRemovals) {
+    edits.push(removeImportSpecifiers(code, declaration, names));
+  }
+
+  const output = applyEdits(code, edits);
+  const locate = createLocator(output);
+  const flagged = pendingFlags.map(({ reason, offset, query }): MigrationFlag => ({
+    reason,
+    ...(offset !== undefined ? { line: locate(mapOffset(offset, edits)).line } : {}),
+    knowledge_query: query,
+  }));
+
+  return { code: output, changes, flagged };
+}
+
+/**
+ * Flag whatever is still legacy in the final output
+ */
+function collectRemainingFlags(code: string): MigrationFlag[] {
+  const flagged: MigrationFlag[] = [];
+  const lines = code.split('\n');
+
+  lines.forEach((line, index) => {
+    const task = /@migration-task:?\s*(.*?)\s*(?:-->|\*\/)?$/.exec(line);
+    if (task) {
+      flagged.push({ reason: task[1] || 'Manual migration required', line: index + 1, knowledge_query: 'migrate' });
+    }
+  });
+
+  let ast: any;
+  try {
+    ast = parse(code, { modern: true });
+  } catch {
+    return flagged;
+  }
+  const locate = createLocator(code);
+
+  for (const statement of (ast.instance?.content.body ?? []) as Node[]) {
+    if (statement.type !== 'ImportDeclaration') continue;
+    const line = locate(statement.start!).line;
+
+    if (statement.source?.value === 'svelte/legacy') {
+      for (const specifier of statement.specifiers as Node[]) {
+        const name = specifier.imported?.name;
+        flagged.push({
+          reason: `\`${name}\` from \`svelte/legacy\` ${LEGACY_SHIM_ADVICE[name] ?? 'wraps an event modifier; call the matching `event` method inside the handler instead'}`,
+          line,
+          knowledge_query: MIGRATION_QUERIES['event-attribute'],
+        });
+      }
+    }
+
+    if (statement.source?.value === 'svelte') {
+      for (const specifier of statement.specifiers as Node[]) {
+        const name = specifier.imported?.name;
+        if (name === 'beforeUpdate' || name === 'afterUpdate') {
+          flagged.push({
+            reason: `\`${name}\` is not available in runes mode; rewrite it with \`${name === 'beforeUpdate' ? '$effect.pre' : '$effect'}\``,
+            line,
+            knowledge_query: MIGRATION_QUERIES.effect,
+          });
+        }
+      }
+    }
+  }
+
+  return flagged;
+}
+
+class MigrationTimeoutError extends Error {}
+
+/**
+ * Run the compiler's migrate() on a worker thread, terminating it after `timeoutMs`
+ * so a migration that never returns does not block the event loop
+ */
+function runUpstreamMigration(code: string, filename: string, timeoutMs: number): Promise<string> {
+  // Under Bun the sources run as TypeScript, under Node the compiled JavaScript
+  const extension = import.meta.url.endsWith('.ts') ? '.ts' : '.js';
+  const worker = new Worker(new URL(`./migrate-worker${extension}`, import.meta.url), { workerData: { code, filename } });
+
+  return new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new MigrationTimeoutError(`migrate() did not finish within ${timeoutMs}ms`)), timeoutMs);
+    worker.once('message', (result: { code: string } | { error: string }) => {
+      if ('error' in result) reject(new Error(result.error));
+      else resolve(result.code);
+    });
+    worker.once('error', reject);
+    worker.once('exit', () => reject(new Error('The migration worker exited without a result')));
+  }).finally(() => {
+    void worker.terminate();
+  });
+}
+
+/**
+ * Migrate a Svelte 4 component to Svelte 5 runes syntax
+ */
+export async function migrateSvelteSource(code: string, options: { filename?: string; timeoutMs?: number } = {}): Promise<MigrationResult> {
+  const filename = options.filename || 'Component.svelte';
+  const unchanged = (reason: string): MigrationResult => ({
+    filename,
+    code,
+    changed: false,
+    changes: [],
+    flagged: [{ reason, knowledge_query: 'migrate' }],
+  });
+
+  let originalAst: any;
+  try {
+    originalAst = parse(code, { modern: true });
+  } catch (error) {
+    return unchanged(`Could not parse the component: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+  }
+
+  const scan = scanOriginal(code, originalAst);
+
+  let migrated: string;
+  try {
+    migrated = await runUpstreamMigration(code, filename, options.timeoutMs ?? MIGRATE_TIMEOUT_MS);
+  } catch (error) {
+    if (error instanceof MigrationTimeoutError) {
+      return unchanged(`Unable to migrate safely: the Svelte compiler's migration did not finish within ${(options.timeoutMs ?? MIGRATE_TIMEOUT_MS) / 1000}s; migrate this component by hand`);
+    }
+    return unchanged(`The Svelte compiler could not migrate this component: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+  }
+
+  // The compiler's migration occasionally emits broken code (e.g. `let $derived()`); never pass that on
+  try {
+    compile(migrated, { filename, generate: false });
+  } catch (error) {
+    return unchanged(`Unable to migrate safely: the Svelte compiler's migration produced code that does not compile (${error instanceof Error ? error.message.split('\n')[0] : String(error)}); migrate this component by hand`);
+  }
+
+  let output = migrated;
+  let extraChanges: MigrationChange[] = [];
+  let flagged: MigrationFlag[] = [];
+  try {
+    const processed = postProcess(migrated, scan);
+    compile(processed.code, { filename, generate: false });
+    output = processed.code;
+    extraChanges = processed.changes;
+    flagged = processed.flagged;
+  } catch (error) {
+    flagged.push({
+      reason: `Extra rune conversions were skipped because they did not compile: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`,
+      knowledge_query: 'migrate',
+    });
+  }
+
+  // `let` variables that became $state, and `$:` assignments that had to stay as effects
+  const finalAst: any = (() => {
+    try {
+      return parse(output, { modern: true });
+    } catch {
+      return null;
+    }
+  })();
+  const runeDeclarations = new Map<string, string>();
+  for (const statement of (finalAst?.instance?.content.body ?? []) as Node[]) {
+    if (statement.type !== 'VariableDeclaration') continue;
+    for (const declarator of statement.declarations as Node[]) {
+      const rune = getRuneName(declarator.init?.callee);
+      if (rune && declarator.id?.type === 'Identifier') runeDeclarations.set(declarator.id.name, rune);
+    }
+  }
+
+  const stateChanges: MigrationChange[] = [];
+  for (const [name, line] of scan.plainLets) {
+    if (runeDeclarations.get(name) === '$state') {
+      stateChanges.push({
+        kind: 'state',
+        description: `\`let ${name}\` is reassigned, so it becomes \`$state\``,
+        original_line: line,
+        knowledge_query: MIGRATION_QUERIES.state,
+      });
+    }
+  }
+
+  for (const [name, change] of scan.derivedCandidates) {
+    if (!runeDeclarations.get(name)?.startsWith('$derived')) {
+      change.kind = 'effect';
+      change.description = `\`$: ${name} = …\` → \`$state\` updated from an effect (\`${name}\` is also written elsewhere)`;
+      change.knowledge_query = MIGRATION_QUERIES.effect;
+    }
+  }
+
+  const changes = [...scan.changes, ...stateChanges, ...extraChanges]
+    .sort((a, b) => (a.original_line ?? Infinity) - (b.original_line ?? Infinity));
+
+  return {
+    filename,
+    code: output,
+    changed: output !== code,
+    changes,
+    flagged: [...flagged, ...collectRemainingFlags(output)],
+  };
+}
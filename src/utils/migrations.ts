@@ -0,0 +1,315 @@
+import type { SQLiteDatabase } from './sqlite.js';
+
+/**
+ * Versioned database schema
+ *
+ * The schema version is stored as `schema_version` in the `metadata` table.
+ * At startup every migration newer than it runs, in order, each in its own
+ * transaction together with the version bump, so a failed migration leaves
+ * the database at the previous version. Append new migrations to the end;
+ * never edit one that has shipped. A migration whose new tables are derived
+ * from the entries can `DELETE FROM sync_sources` to make the next sync
+ * re-read every JSONL file.
+ */
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLiteDatabase) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // Databases from before schema versioning have some of these tables and
+    // columns already, so every statement tolerates existing ones
+    description: 'Entries, FTS5 indexes, sync state, synonyms, embeddings and example checks',
+    up: db => {
+      // Create tables with FTS5 for advanced text search
+      db.run(`
+        CREATE TABLE IF NOT EXISTS knowledge (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          question TEXT NOT NULL UNIQUE,
+          answer TEXT NOT NULL,
+          origin TEXT NOT NULL DEFAULT 'bundled',
+          pack TEXT,
+          category TEXT,
+          source_file TEXT,
+          source_line INTEGER,
+          content_hash TEXT,
+          version INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS examples (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          instruction TEXT NOT NULL UNIQUE,
+          input TEXT NOT NULL,
+          output TEXT NOT NULL,
+          origin TEXT NOT NULL DEFAULT 'bundled',
+          pack TEXT,
+          category TEXT,
+          source_file TEXT,
+          source_line INTEGER,
+          content_hash TEXT,
+          version INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- FTS5 virtual tables for full-text search
+        CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_fts USING fts5(
+          question, answer,
+          content='knowledge',
+          content_rowid='id',
+          tokenize="unicode61 separators ' !""#$%&''()*+,-./:;<=>?@[\]^_\`{|}~'"
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS examples_fts USING fts5(
+          instruction, input, output,
+          content='examples',
+          content_rowid='id',
+          tokenize="unicode61 separators ' !""#$%&''()*+,-./:;<=>?@[\]^_\`{|}~'"
+        );
+
+        -- Indexed terms with document counts, used to correct typos in queries
+        CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_vocab USING fts5vocab(knowledge_fts, row);
+        CREATE VIRTUAL TABLE IF NOT EXISTS examples_vocab USING fts5vocab(examples_fts, row);
+
+        -- Content hash of every synced JSONL file
+        CREATE TABLE IF NOT EXISTS sync_sources (
+          path TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          entry_count INTEGER NOT NULL DEFAULT 0,
+          synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Create synonyms table for Svelte 5 specific terms
+        CREATE TABLE IF NOT EXISTS synonyms (
+          term TEXT PRIMARY KEY,
+          synonyms TEXT NOT NULL -- JSON array of synonyms
+        );
+
+        -- Triggers to keep FTS in sync
+        CREATE TRIGGER IF NOT EXISTS knowledge_ai AFTER INSERT ON knowledge BEGIN
+          INSERT INTO knowledge_fts(rowid, question, answer)
+          VALUES (new.id, new.question, new.answer);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS knowledge_ad AFTER DELETE ON knowledge BEGIN
+          INSERT INTO knowledge_fts(knowledge_fts, rowid, question, answer)
+          VALUES('delete', old.id, old.question, old.answer);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS knowledge_au AFTER UPDATE ON knowledge BEGIN
+          INSERT INTO knowledge_fts(knowledge_fts, rowid, question, answer)
+          VALUES('delete', old.id, old.question, old.answer);
+          INSERT INTO knowledge_fts(rowid, question, answer)
+          VALUES (new.id, new.question, new.answer);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS examples_ai AFTER INSERT ON examples BEGIN
+          INSERT INTO examples_fts(rowid, instruction, input, output)
+          VALUES (new.id, new.instruction, new.input, new.output);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS examples_ad AFTER DELETE ON examples BEGIN
+          INSERT INTO examples_fts(examples_fts, rowid, instruction, input, output)
+          VALUES('delete', old.id, old.instruction, old.input, old.output);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS examples_au AFTER UPDATE ON examples BEGIN
+          INSERT INTO examples_fts(examples_fts, rowid, instruction, input, output)
+          VALUES('delete', old.id, old.instruction, old.input, old.output);
+          INSERT INTO examples_fts(rowid, instruction, input, output)
+          VALUES (new.id, new.instruction, new.input, new.output);
+        END;
+      `);
+
+      // Embeddings for semantic search, one per entry (see utils/embedding.ts)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS knowledge_vectors (
+          id INTEGER PRIMARY KEY,
+          model TEXT NOT NULL,
+          content_hash TEXT,
+          vector BLOB NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS examples_vectors (
+          id INTEGER PRIMARY KEY,
+          model TEXT NOT NULL,
+          content_hash TEXT,
+          vector BLOB NOT NULL
+        );
+      `);
+
+      // Compile checks of example code (see utils/example-verification.ts)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS example_checks (
+          id INTEGER PRIMARY KEY,
+          verifier TEXT NOT NULL,
+          content_hash TEXT,
+          kind TEXT NOT NULL,
+          status TEXT NOT NULL,
+          errors TEXT NOT NULL,
+          warnings TEXT NOT NULL,
+          checked_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Databases created before category tracking lack the source columns
+      for (const table of ['knowledge', 'examples']) {
+        ensureColumn(db, table, 'origin', "TEXT NOT NULL DEFAULT 'bundled'");
+        ensureColumn(db, table, 'pack', 'TEXT');
+        ensureColumn(db, table, 'category', 'TEXT');
+        ensureColumn(db, table, 'source_file', 'TEXT');
+        ensureColumn(db, table, 'source_line', 'INTEGER');
+      }
+      ensureColumn(db, 'knowledge', 'level', 'TEXT');
+      ensureColumn(db, 'synonyms', 'source', "TEXT NOT NULL DEFAULT 'bundled'");
+      db.run(`
+        CREATE INDEX IF NOT EXISTS knowledge_category ON knowledge(category);
+        CREATE INDEX IF NOT EXISTS examples_category ON examples(category);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Knowledge answers split into prose and code passages, with an FTS5 index',
+    up: db => {
+      db.run(`
+        CREATE TABLE knowledge_passages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          knowledge_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          kind TEXT NOT NULL,
+          language TEXT,
+          content TEXT NOT NULL,
+          content_hash TEXT
+        );
+        CREATE INDEX knowledge_passages_entry ON knowledge_passages(knowledge_id, position);
+
+        CREATE VIRTUAL TABLE knowledge_passages_fts USING fts5(
+          content,
+          content='knowledge_passages',
+          content_rowid='id',
+          tokenize="unicode61 separators ' !""#$%&''()*+,-./:;<=>?@[\]^_\`{|}~'"
+        );
+
+        -- Passages are replaced when their entry changes, never updated
+        CREATE TRIGGER knowledge_passages_ai AFTER INSERT ON knowledge_passages BEGIN
+          INSERT INTO knowledge_passages_fts(rowid, content) VALUES (new.id, new.content);
+        END;
+
+        CREATE TRIGGER knowledge_passages_ad AFTER DELETE ON knowledge_passages BEGIN
+          INSERT INTO knowledge_passages_fts(knowledge_passages_fts, rowid, content) VALUES('delete', old.id, old.content);
+        END;
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Links between knowledge entries and examples, from shared mentions and explicit related keys',
+    up: db => {
+      db.run(`
+        ALTER TABLE knowledge ADD COLUMN related_keys TEXT; -- JSON array of example instructions
+        ALTER TABLE examples ADD COLUMN related_keys TEXT; -- JSON array of knowledge questions
+
+        CREATE TABLE knowledge_examples (
+          knowledge_id INTEGER NOT NULL,
+          example_id INTEGER NOT NULL,
+          score REAL NOT NULL,
+          source TEXT NOT NULL, -- 'explicit' or 'mentions'
+          shared TEXT NOT NULL, -- JSON array of shared mentions
+          PRIMARY KEY (knowledge_id, example_id)
+        );
+        CREATE INDEX knowledge_examples_example ON knowledge_examples(example_id);
+
+        -- Re-read every file so existing entries pick up their related keys
+        DELETE FROM sync_sources;
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'API symbol table with the entries that mention each symbol',
+    up: db => {
+      db.run(`
+        CREATE TABLE api_symbols (
+          name TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          module TEXT,
+          signature TEXT, -- NULL for symbols found in entries but missing from the catalog
+          summary TEXT,
+          svelte4 TEXT NOT NULL -- JSON array of Svelte 4 equivalents
+        );
+
+        CREATE TABLE api_mentions (
+          symbol TEXT NOT NULL,
+          entry_type TEXT NOT NULL, -- 'knowledge' or 'examples'
+          entry_id INTEGER NOT NULL,
+          in_title INTEGER NOT NULL, -- 1 when the question or instruction names the symbol
+          PRIMARY KEY (symbol, entry_type, entry_id)
+        );
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureColumn(db: SQLiteDatabase, table: string, column: string, type: string) {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+export function getSchemaVersion(db: SQLiteDatabase): number {
+  const row = db.query("SELECT value FROM metadata WHERE key = 'schema_version'").get() as { value: string } | null;
+  return row ? Number(row.value) : 0;
+}
+
+/**
+ * Apply the pending migrations and return their versions. Throws when one
+ * fails or the database was written by a newer schema than this release knows.
+ */
+export function migrate(db: SQLiteDatabase): number[] {
+  // The version lives in metadata, so that table predates every migration
+  db.run(`
+    CREATE TABLE IF NOT EXISTS metadata (
+      key TEXT PRIMARY KEY,
+      value TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const current = getSchemaVersion(db);
+  if (current > SCHEMA_VERSION) {
+    throw new Error(`Database schema version ${current} is newer than the ${SCHEMA_VERSION} this release supports`);
+  }
+
+  const setVersion = db.query(`
+    INSERT INTO metadata (key, value, updated_at)
+    VALUES ('schema_version', ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET
+      value = excluded.value,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+
+  const applied: number[] = [];
+  for (const migration of MIGRATIONS.filter(migration => migration.version > current)) {
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        setVersion.run(String(migration.version));
+      })();
+    } catch (error) {
+      throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+    applied.push(migration.version);
+  }
+  return applied;
+}
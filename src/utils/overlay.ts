@@ -0,0 +1,61 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { DifficultyLevel } from './difficulty.js';
+import { appendToJSONL } from './jsonl.js';
+
+/**
+ * Writes to the user's overlay directory, which mirrors the bundled data layout
+ * (`knowledge/<category>.jsonl` and `patterns/<category>.jsonl`)
+ */
+
+export const DEFAULT_OVERLAY_CATEGORY = 'local';
+
+const CATEGORY_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export interface OverlayKnowledge {
+  question: string;
+  answer: string;
+  level?: DifficultyLevel;
+  /** Instructions of examples to link to */
+  related?: string[];
+}
+
+export interface OverlayExample {
+  instruction: string;
+  input: string;
+  output: string;
+  /** Questions of knowledge entries to link to */
+  related?: string[];
+}
+
+/**
+ * Append an entry to `<overlayDir>/<knowledge|patterns>/<category>.jsonl`
+ */
+export function appendOverlayEntry(
+  overlayDir: string,
+  kind: 'knowledge' | 'examples',
+  category: string,
+  entry: OverlayKnowledge | OverlayExample,
+): { file: string; line: number } {
+  if (!CATEGORY_PATTERN.test(category)) {
+    throw new Error(`Invalid category "${category}": use lowercase letters, digits, "-" and "_"`);
+  }
+
+  const dir = join(overlayDir, kind === 'knowledge' ? 'knowledge' : 'patterns');
+  mkdirSync(dir, { recursive: true });
+  const file = join(dir, `${category}.jsonl`);
+
+  let lines = 0;
+  if (existsSync(file)) {
+    const content = readFileSync(file, 'utf-8');
+    lines = content.split('\n').length - 1;
+    // Keep one entry per line even if the file was edited by hand without a trailing newline
+    if (content && !content.endsWith('\n')) {
+      appendFileSync(file, '\n', 'utf-8');
+      lines++;
+    }
+  }
+
+  appendToJSONL(file, entry);
+  return { file, line: lines + 1 };
+}
@@ -0,0 +1,219 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, dirname, isAbsolute, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { getConfigDirectory, getPacksDirectory } from './config.js';
+import { logger } from './logger.js';
+import { readSynonymFile, validateSynonymGroups, type SynonymFile } from './synonyms.js';
+
+/**
+ * Knowledge packs: third-party knowledge/ and patterns/ JSONL folders with a manifest
+ *
+ * A pack is any directory containing `svelte5-pack.json`:
+ *
+ *   {
+ *     "name": "sveltekit",
+ *     "version": "1.0.0",
+ *     "description": "SvelteKit routing, load functions and form actions",
+ *     "categories": ["routing", "forms"],
+ *     "synonyms": [{ "term": "load", "synonyms": ["+page.ts"] }],
+ *     "knowledge": "knowledge",
+ *     "patterns": "patterns"
+ *   }
+ *
+ * `synonyms` may also be a path to a synonyms.json file inside the pack, and
+ * `knowledge`/`patterns` default to those folder names. Packs are discovered in
+ * the working directory's `node_modules`, the `node_modules` this server is
+ * installed in (including scoped packages) and the packs directory. They are
+ * enabled unless disabled through `packs.json` in the config directory.
+ */
+
+export const PACK_MANIFEST_FILE = 'svelte5-pack.json';
+export const PACK_STATE_FILE = 'packs.json';
+
+export interface PackManifest {
+  name: string;
+  version: string;
+  description?: string;
+  categories?: string[];
+  synonyms?: SynonymFile['groups'] | string;
+  knowledge?: string;
+  patterns?: string;
+}
+
+export interface KnowledgePack {
+  manifest: PackManifest;
+  dir: string;
+  source: 'node_modules' | 'directory';
+  enabled: boolean;
+}
+
+const PACK_NAME_PATTERN = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i;
+
+/**
+ * `node_modules` of the current project and, when installed as a package, the one holding this server
+ */
+function defaultNodeModulesDirs(): string[] {
+  const dirs = [join(process.cwd(), 'node_modules')];
+  let dir = dirname(fileURLToPath(import.meta.url));
+  while (dirname(dir) !== dir) {
+    if (basename(dir) === 'node_modules') {
+      dirs.push(dir);
+      break;
+    }
+    dir = dirname(dir);
+  }
+  return [...new Set(dirs)];
+}
+
+function getPackStatePath(): string {
+  return join(getConfigDirectory(), PACK_STATE_FILE);
+}
+
+function isInsidePack(path: string): boolean {
+  return !isAbsolute(path) && !path.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Read and validate `<dir>/svelte5-pack.json`; null when the directory is not a pack
+ */
+export function readPackManifest(dir: string): PackManifest | null {
+  const manifestPath = join(dir, PACK_MANIFEST_FILE);
+  if (!existsSync(manifestPath)) return null;
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid pack manifest ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof manifest?.name !== 'string' || !PACK_NAME_PATTERN.test(manifest.name)) {
+    throw new Error(`Invalid pack manifest ${manifestPath}: "name" must be a package-style name`);
+  }
+  if (typeof manifest.version !== 'string') {
+    throw new Error(`Invalid pack manifest ${manifestPath}: "version" must be a string`);
+  }
+  if (manifest.categories !== undefined && (!Array.isArray(manifest.categories) || manifest.categories.some((c: unknown) => typeof c !== 'string'))) {
+    throw new Error(`Invalid pack manifest ${manifestPath}: "categories" must be an array of strings`);
+  }
+  for (const folder of ['knowledge', 'patterns'] as const) {
+    const value = manifest[folder];
+    if (value !== undefined && (typeof value !== 'string' || !isInsidePack(value))) {
+      throw new Error(`Invalid pack manifest ${manifestPath}: "${folder}" must be a relative path inside the pack`);
+    }
+  }
+  if (typeof manifest.synonyms === 'string' && !isInsidePack(manifest.synonyms)) {
+    throw new Error(`Invalid pack manifest ${manifestPath}: "synonyms" must be a relative path inside the pack or an array of groups`);
+  }
+
+  return manifest as PackManifest;
+}
+
+/**
+ * Synonym groups a pack contributes, inline or from a file inside the pack
+ */
+export function readPackSynonyms(pack: KnowledgePack): SynonymFile['groups'] {
+  const { synonyms } = pack.manifest;
+  if (!synonyms) return [];
+  if (typeof synonyms === 'string') {
+    return readSynonymFile(resolve(pack.dir, synonyms)).groups;
+  }
+  return validateSynonymGroups(synonyms, join(pack.dir, PACK_MANIFEST_FILE));
+}
+
+function listDirectories(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  try {
+    return readdirSync(dir)
+      .map(name => join(dir, name))
+      .filter(path => {
+        try {
+          return statSync(path).isDirectory();
+        } catch {
+          return false;
+        }
+      })
+      .sort();
+  } catch (error) {
+    logger.warning(`Could not scan directory ${dir}`, error);
+    return [];
+  }
+}
+
+/**
+ * Candidate pack directories: every package in node_modules (scoped ones too) and every folder in the packs directory
+ */
+function candidateDirectories(nodeModulesDirs: string[], packsDir: string) {
+  const candidates: { dir: string; source: KnowledgePack['source'] }[] = [];
+
+  for (const dir of listDirectories(packsDir)) {
+    candidates.push({ dir, source: 'directory' });
+  }
+
+  for (const nodeModules of nodeModulesDirs) {
+    for (const dir of listDirectories(nodeModules)) {
+      const name = dir.slice(nodeModules.length + 1);
+      if (name.startsWith('.')) continue;
+      if (name.startsWith('@')) {
+        candidates.push(...listDirectories(dir).map(scoped => ({ dir: scoped, source: 'node_modules' as const })));
+      } else {
+        candidates.push({ dir, source: 'node_modules' });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+export function loadDisabledPacks(): Set<string> {
+  const statePath = getPackStatePath();
+  if (!existsSync(statePath)) return new Set();
+  try {
+    const state = JSON.parse(readFileSync(statePath, 'utf-8'));
+    return new Set(Array.isArray(state?.disabled) ? state.disabled.filter((name: unknown) => typeof name === 'string') : []);
+  } catch (error) {
+    logger.warning(`Ignoring unreadable ${statePath}`, error);
+    return new Set();
+  }
+}
+
+/**
+ * Enable or disable a pack by name; takes effect on the next sync
+ */
+export function setPackEnabled(name: string, enabled: boolean) {
+  const disabled = loadDisabledPacks();
+  if (enabled) disabled.delete(name);
+  else disabled.add(name);
+  writeFileSync(getPackStatePath(), JSON.stringify({ disabled: [...disabled].sort() }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Find every installed pack. When two packs share a name, the packs directory wins over node_modules.
+ */
+export function discoverPacks(options: { nodeModulesDirs?: string[]; packsDir?: string } = {}): KnowledgePack[] {
+  const {
+    nodeModulesDirs = defaultNodeModulesDirs(),
+    packsDir = getPacksDirectory(),
+  } = options;
+  const disabled = loadDisabledPacks();
+  const packs = new Map<string, KnowledgePack>();
+
+  for (const { dir, source } of candidateDirectories(nodeModulesDirs, packsDir)) {
+    let manifest: PackManifest | null;
+    try {
+      manifest = readPackManifest(dir);
+    } catch (error) {
+      logger.warning(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    if (!manifest) continue;
+
+    if (packs.has(manifest.name)) {
+      logger.warning(`Skipping duplicate knowledge pack "${manifest.name}" at ${dir}`);
+      continue;
+    }
+    packs.set(manifest.name, { manifest, dir, source, enabled: !disabled.has(manifest.name) });
+  }
+
+  return [...packs.values()].sort((a, b) => a.manifest.name.localeCompare(b.manifest.name));
+}
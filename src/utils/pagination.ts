@@ -0,0 +1,44 @@
+/**
+ * Opaque cursors for paginated tool results and resource lists
+ */
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  next_offset: number | null;
+  next_cursor: string | null;
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Slice one page out of a fully ranked list. A page holds at least one item,
+ * so following `next_cursor` always ends.
+ */
+export function paginate<T>(items: T[], offset: number, limit: number): Page<T> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid limit: ${limit}. Expected a positive integer`);
+  }
+  const end = offset + limit;
+  const hasMore = end < items.length;
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    offset,
+    next_offset: hasMore ? end : null,
+    next_cursor: hasMore ? encodeCursor(end) : null,
+  };
+}
@@ -0,0 +1,36 @@
+import { CODE_FENCE_PATTERN } from './code-snippets.js';
+
+/**
+ * Split markdown answers into passages: fenced code blocks and the prose
+ * paragraphs between them. Passages are indexed on their own so a search can
+ * return the part of an answer that matched instead of its first lines.
+ */
+
+export interface Passage {
+  kind: 'prose' | 'code';
+  /** Fence language of a code block, lower-cased; null for prose and bare fences */
+  language: string | null;
+  /** The passage's markdown, fences included */
+  text: string;
+}
+
+export function splitPassages(markdown: string): Passage[] {
+  const passages: Passage[] = [];
+
+  // Blank lines end a paragraph
+  const addProse = (text: string) => {
+    for (const paragraph of text.split(/\n[ \t]*\n/)) {
+      if (paragraph.trim()) passages.push({ kind: 'prose', language: null, text: paragraph.trim() });
+    }
+  };
+
+  let end = 0;
+  for (const match of markdown.matchAll(CODE_FENCE_PATTERN)) {
+    addProse(markdown.slice(end, match.index));
+    passages.push({ kind: 'code', language: match[1].toLowerCase() || null, text: match[0] });
+    end = match.index! + match[0].length;
+  }
+  addProse(markdown.slice(end));
+
+  return passages;
+}
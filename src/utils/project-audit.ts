@@ -0,0 +1,220 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, relative, resolve, sep } from 'path';
+import { auditSvelteSource, type AuditFocus, type AuditResult, type AuditSeverity } from './audit.js';
+import { isIgnored, loadGitignore, type IgnoreMatcher } from './gitignore.js';
+
+/**
+ * Project-wide audit of every Svelte component and rune module under a directory
+ */
+
+export interface ProjectAuditOptions {
+  focus?: AuditFocus;
+  maxFiles?: number;
+  worstFilesLimit?: number;
+  onProgress?: (progress: ProjectAuditProgress) => Promise<void> | void;
+  signal?: AbortSignal;
+}
+
+export interface ProjectAuditProgress {
+  phase: 'discovering' | 'auditing';
+  processed: number;
+  total?: number;
+  file?: string;
+}
+
+export type MigrationStatus = 'runes' | 'legacy' | 'neutral';
+
+export interface ProjectFileSummary {
+  path: string;
+  kind: AuditResult['kind'];
+  migration_status: MigrationStatus;
+  compiled: boolean;
+  errors: number;
+  warnings: number;
+  info: number;
+  score: number;
+}
+
+export interface ProjectRuleSummary {
+  rule: string;
+  severity: AuditSeverity;
+  count: number;
+  files: number;
+}
+
+export interface ProjectAuditSummary {
+  root: string;
+  files_scanned: number;
+  files_with_findings: number;
+  truncated: boolean;
+  totals: Record<AuditSeverity, number>;
+  by_rule: ProjectRuleSummary[];
+  worst_files: ProjectFileSummary[];
+  migration_progress: {
+    runes: number;
+    legacy: number;
+    neutral: number;
+    percent_migrated: number;
+  };
+  unreadable: { path: string; error: string }[];
+}
+
+const SVELTE_FILE_PATTERN = /\.svelte(\.(js|ts))?$/;
+
+// Never worth descending into, whether or not the project ignores them
+const ALWAYS_SKIPPED = new Set(['node_modules', '.git', '.svelte-kit', '.vercel', '.netlify']);
+
+const SEVERITY_WEIGHT: Record<AuditSeverity, number> = { error: 10, warning: 3, info: 1 };
+
+// Files above this size are almost certainly generated and are skipped
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Find every .svelte, .svelte.ts and .svelte.js file, honouring nested .gitignore files
+ */
+export async function findSvelteFiles(root: string, options: Pick<ProjectAuditOptions, 'maxFiles' | 'onProgress' | 'signal'> = {}) {
+  const { maxFiles = Infinity, onProgress, signal } = options;
+  const files: string[] = [];
+  let truncated = false;
+
+  const visit = async (dir: string, matchers: IgnoreMatcher[]) => {
+    const local = loadGitignore(dir);
+    const activeMatchers = local ? [...matchers, local] : matchers;
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (signal?.aborted || truncated) return;
+
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (ALWAYS_SKIPPED.has(entry.name) || isIgnored(activeMatchers, fullPath, true)) continue;
+        await visit(fullPath, activeMatchers);
+      } else if (entry.isFile() && SVELTE_FILE_PATTERN.test(entry.name)) {
+        if (isIgnored(activeMatchers, fullPath, false)) continue;
+        if (files.length >= maxFiles) {
+          truncated = true;
+          return;
+        }
+        files.push(fullPath);
+        if (onProgress && files.length % 50 === 0) {
+          await onProgress({ phase: 'discovering', processed: files.length });
+        }
+      }
+    }
+  };
+
+  await visit(root, []);
+  return { files, truncated };
+}
+
+function migrationStatus(result: AuditResult): MigrationStatus {
+  if (result.findings.some(finding => finding.category === 'legacy')) return 'legacy';
+  if (result.kind === 'module' || result.mode === 'runes') return 'runes';
+  return 'neutral';
+}
+
+/**
+ * Audit every Svelte file under `root` and aggregate the findings
+ */
+export async function auditProject(root: string, options: ProjectAuditOptions = {}): Promise<ProjectAuditSummary> {
+  const { focus = 'all', worstFilesLimit = 10, onProgress, signal } = options;
+  const absoluteRoot = resolve(root);
+
+  const rootStat = await stat(absoluteRoot).catch(() => null);
+  if (!rootStat?.isDirectory()) {
+    throw new Error(`Not a directory: ${absoluteRoot}`);
+  }
+
+  const { files, truncated } = await findSvelteFiles(absoluteRoot, options);
+
+  const totals: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+  const rules = new Map<string, ProjectRuleSummary>();
+  const fileSummaries: ProjectFileSummary[] = [];
+  const unreadable: { path: string; error: string }[] = [];
+  const migration = { runes: 0, legacy: 0, neutral: 0 };
+
+  for (const [index, file] of files.entries()) {
+    if (signal?.aborted) break;
+
+    const path = relative(absoluteRoot, file).split(sep).join('/');
+
+    if (onProgress) {
+      await onProgress({ phase: 'auditing', processed: index, total: files.length, file: path });
+    }
+
+    let code: string;
+    try {
+      const info = await stat(file);
+      if (info.size > MAX_FILE_SIZE) {
+        unreadable.push({ path, error: `Skipped: larger than ${MAX_FILE_SIZE / 1024}KB` });
+        continue;
+      }
+      code = await readFile(file, 'utf-8');
+    } catch (error) {
+      unreadable.push({ path, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const result = auditSvelteSource(code, { filename: path, focus });
+
+    const counts: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+    const rulesInFile = new Set<string>();
+    for (const finding of result.findings) {
+      counts[finding.severity]++;
+      totals[finding.severity]++;
+
+      const summary = rules.get(finding.rule) ?? { rule: finding.rule, severity: finding.severity, count: 0, files: 0 };
+      summary.count++;
+      if (!rulesInFile.has(finding.rule)) {
+        summary.files++;
+        rulesInFile.add(finding.rule);
+      }
+      rules.set(finding.rule, summary);
+    }
+
+    const status = migrationStatus(result);
+    migration[status]++;
+
+    fileSummaries.push({
+      path,
+      kind: result.kind,
+      migration_status: status,
+      compiled: result.compiled,
+      errors: counts.error,
+      warnings: counts.warning,
+      info: counts.info,
+      score: (Object.keys(counts) as AuditSeverity[]).reduce((sum, severity) => sum + counts[severity] * SEVERITY_WEIGHT[severity], 0),
+    });
+  }
+
+  if (onProgress) {
+    await onProgress({ phase: 'auditing', processed: files.length, total: files.length });
+  }
+
+  const migratable = migration.runes + migration.legacy;
+
+  return {
+    root: absoluteRoot,
+    files_scanned: fileSummaries.length,
+    files_with_findings: fileSummaries.filter(file => file.score > 0).length,
+    truncated,
+    totals,
+    by_rule: [...rules.values()].sort((a, b) => b.count - a.count || a.rule.localeCompare(b.rule)),
+    worst_files: fileSummaries
+      .filter(file => file.score > 0)
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, worstFilesLimit),
+    migration_progress: {
+      ...migration,
+      percent_migrated: migratable === 0 ? 100 : Math.round((migration.runes / migratable) * 1000) / 10,
+    },
+    unreadable,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Choose which retrieved entries a tool response includes, and record why
+ */
+
+export interface RetrievalPass<T> {
+  /** Candidates in relevance order */
+  results: T[];
+  /** Why a candidate found by this pass at 0-based `rank` is relevant */
+  reason: (rank: number) => string;
+  /** Reserve a slot for this pass's best candidate (e.g. one per requested feature) */
+  required?: boolean;
+}
+
+export interface Selection<T> {
+  item: T;
+  /** The reasons of every pass that found the item, best pass first */
+  reasons: string[];
+}
+
+/**
+ * Order relevance-ranked candidates by how close their grade is to the target,
+ * keeping relevance order among equally close ones, and take the first `limit`
+ */
+export function pickByGrade<T, G extends string>(
+  candidates: T[],
+  scale: readonly G[],
+  target: G,
+  gradeOf: (candidate: T) => G,
+  limit: number,
+): T[] {
+  const distance = (candidate: T) => Math.abs(scale.indexOf(gradeOf(candidate)) - scale.indexOf(target));
+  return candidates
+    .map((candidate, rank) => ({ candidate, rank, distance: distance(candidate) }))
+    .sort((a, b) => a.distance - b.distance || a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Pick up to `limit` entries across retrieval passes. Required passes get their
+ * best candidate at the target grade first, even past `limit`; the other passes
+ * fill the remaining slots, with at least one pick from them. Slots the other
+ * passes leave open go to the remaining candidates of every pass.
+ */
+export function selectFromPasses<T extends { id: number }, G extends string>(
+  passes: RetrievalPass<T>[],
+  scale: readonly G[],
+  target: G,
+  gradeOf: (candidate: T) => G,
+  limit: number,
+): Selection<T>[] {
+  const picked = new Map<number, T>();
+  const unpicked = (results: T[]) => results.filter(result => !picked.has(result.id));
+  // Candidates of the given passes not picked yet, deduplicated in pass order
+  const pool = (from: RetrievalPass<T>[]) => {
+    const pooled = new Map<number, T>();
+    for (const result of unpicked(from.flatMap(pass => pass.results))) {
+      if (!pooled.has(result.id)) pooled.set(result.id, result);
+    }
+    return [...pooled.values()];
+  };
+
+  for (const pass of passes.filter(pass => pass.required)) {
+    const [best] = pickByGrade(unpicked(pass.results), scale, target, gradeOf, 1);
+    if (best) picked.set(best.id, best);
+  }
+
+  const open = passes.filter(pass => !pass.required);
+  const slots = Math.max(limit - picked.size, open.length > 0 ? 1 : 0);
+  for (const item of pickByGrade(pool(open), scale, target, gradeOf, slots)) {
+    picked.set(item.id, item);
+  }
+
+  // E.g. when the description matches little, the required passes' runners-up take the open slots
+  for (const item of pickByGrade(pool(passes), scale, target, gradeOf, Math.max(limit - picked.size, 0))) {
+    picked.set(item.id, item);
+  }
+
+  // Open passes' picks lead, in the order their passes ranked them
+  const order = [...open, ...passes.filter(pass => pass.required)];
+  const selections = [...picked.values()].map(item => {
+    const hits = order
+      .map((pass, passIndex) => ({ pass, passIndex, rank: pass.results.findIndex(result => result.id === item.id) }))
+      .filter(hit => hit.rank !== -1);
+    return { item, first: hits[0], reasons: hits.map(hit => hit.pass.reason(hit.rank)) };
+  });
+
+  return selections
+    .sort((a, b) => a.first.passIndex - b.first.passIndex || a.first.rank - b.first.rank)
+    .map(({ item, reasons }) => ({ item, reasons }));
+}
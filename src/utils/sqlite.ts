@@ -0,0 +1,125 @@
+import { createRequire } from 'module';
+import type { Database as BunDatabase } from 'bun:sqlite';
+import type { DatabaseSync, SQLInputValue, StatementSync } from 'node:sqlite';
+
+/**
+ * SQLite connection that runs under both Bun and Node.js
+ *
+ * Bun uses `bun:sqlite`; Node uses its built-in `node:sqlite` (22.13 or later).
+ * Both ship SQLite with FTS5, so the full-text tables and their triggers work
+ * the same on either runtime. The interface is the part of the `bun:sqlite`
+ * API the search database uses, which Node's driver is adapted to.
+ */
+
+export type SQLiteValue = string | number | bigint | boolean | null | Uint8Array;
+
+export interface SQLiteStatement {
+  all(...params: SQLiteValue[]): unknown[];
+  /** The first row, or null when there is none */
+  get(...params: SQLiteValue[]): unknown;
+  run(...params: SQLiteValue[]): unknown;
+}
+
+export interface SQLiteDatabase {
+  /** Prepare a statement, reusing an earlier one for the same SQL */
+  query(sql: string): SQLiteStatement;
+  /** Execute one or more statements without parameters */
+  run(sql: string): unknown;
+  /** Wrap `fn` so each call runs in a transaction (a savepoint when nested) */
+  transaction<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R;
+  close(): void;
+}
+
+const require = createRequire(import.meta.url);
+
+export const RUNTIME = process.versions.bun ? 'bun' : 'node';
+
+export function openDatabase(path: string, options: { readonly?: boolean } = {}): SQLiteDatabase {
+  if (RUNTIME === 'bun') {
+    const { Database } = require('bun:sqlite') as { Database: typeof BunDatabase };
+    return options.readonly ? new Database(path, { readonly: true }) : new Database(path);
+  }
+  return new NodeDatabase(path, options);
+}
+
+function loadNodeSqlite(): typeof import('node:sqlite') {
+  try {
+    return require('node:sqlite');
+  } catch (error) {
+    throw new Error(`Node.js ${process.versions.node} has no built-in SQLite (node:sqlite). Use Node.js 22.13 or later, or run with Bun`, { cause: error });
+  }
+}
+
+/**
+ * node:sqlite binds every number as REAL, which FTS5 ignores in `rowid = ?`
+ * constraints, so integers go in as bigints. Booleans are not bindable at all;
+ * bun:sqlite stores them as 1 and 0.
+ */
+function toNodeValue(value: SQLiteValue): SQLInputValue {
+  if (typeof value === 'boolean') return value ? 1n : 0n;
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+  return value;
+}
+
+class NodeStatement implements SQLiteStatement {
+  constructor(private statement: StatementSync) {}
+
+  all(...params: SQLiteValue[]) {
+    return this.statement.all(...params.map(toNodeValue));
+  }
+
+  get(...params: SQLiteValue[]) {
+    return this.statement.get(...params.map(toNodeValue)) ?? null;
+  }
+
+  run(...params: SQLiteValue[]) {
+    return this.statement.run(...params.map(toNodeValue));
+  }
+}
+
+class NodeDatabase implements SQLiteDatabase {
+  private db: DatabaseSync;
+  private statements = new Map<string, NodeStatement>();
+  private savepoints = 0;
+
+  constructor(path: string, options: { readonly?: boolean }) {
+    const { DatabaseSync } = loadNodeSqlite();
+    this.db = new DatabaseSync(path, { readOnly: options.readonly ?? false });
+  }
+
+  query(sql: string) {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = new NodeStatement(this.db.prepare(sql));
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  run(sql: string) {
+    this.db.exec(sql);
+  }
+
+  transaction<A extends unknown[], R>(fn: (...args: A) => R) {
+    return (...args: A): R => {
+      const savepoint = `tx_${this.savepoints++}`;
+      this.db.exec(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = fn(...args);
+        this.db.exec(`RELEASE ${savepoint}`);
+        return result;
+      } catch (error) {
+        this.db.exec(`ROLLBACK TO ${savepoint}`);
+        this.db.exec(`RELEASE ${savepoint}`);
+        throw error;
+      } finally {
+        this.savepoints--;
+      }
+    };
+  }
+
+  close() {
+    this.statements.clear();
+    this.db.close();
+  }
+}
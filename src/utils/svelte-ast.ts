@@ -0,0 +1,135 @@
+/**
+ * Helpers for walking the Svelte 5 "modern" AST returned by parse()
+ */
+
+export type Node = { type: string; start?: number; end?: number; [key: string]: any };
+
+export const RUNES = new Set([
+  '$state', '$derived', '$effect', '$props', '$bindable', '$inspect', '$host',
+]);
+
+/**
+ * Visit every AST node (script ESTree and template nodes alike)
+ */
+export function walk(root: unknown, visit: (node: Node) => void) {
+  const seen = new WeakSet<object>();
+  const stack: unknown[] = [root];
+
+  while (stack.length > 0) {
+    const value = stack.pop();
+    if (!value || typeof value !== 'object' || seen.has(value)) continue;
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      for (let i = value.length - 1; i >= 0; i--) stack.push(value[i]);
+      continue;
+    }
+
+    if (typeof (value as Node).type === 'string') {
+      visit(value as Node);
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'metadata' || key === 'parent' || key === 'loc') continue;
+      if (child && typeof child === 'object') stack.push(child);
+    }
+  }
+}
+
+/**
+ * Names bound by a declaration pattern (`x`, `{ a, b: c }`, `[d, ...e]`, `f = 1`)
+ */
+export function patternNames(pattern: Node | null | undefined): string[] {
+  switch (pattern?.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return (pattern.properties as Node[]).flatMap(property => patternNames(property.type === 'RestElement' ? property : property.value));
+    case 'ArrayPattern':
+      return (pattern.elements as (Node | null)[]).flatMap(patternNames);
+    case 'RestElement':
+      return patternNames(pattern.argument);
+    case 'AssignmentPattern':
+      return patternNames(pattern.left);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Every name declared in the code, in any scope: variables, functions, classes,
+ * parameters, catch clauses, `{#each}` items and snippets. Imports are not included.
+ */
+export function declaredNames(root: unknown): Set<string> {
+  const names = new Set<string>();
+  const add = (pattern: Node | null | undefined) => patternNames(pattern).forEach(name => names.add(name));
+
+  walk(root, (node) => {
+    switch (node.type) {
+      case 'VariableDeclarator':
+        add(node.id);
+        break;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'SnippetBlock':
+        add(node.id ?? node.expression);
+        (node.params ?? node.parameters ?? []).forEach(add);
+        break;
+      case 'ClassDeclaration':
+        add(node.id);
+        break;
+      case 'CatchClause':
+        add(node.param);
+        break;
+      case 'EachBlock':
+        add(node.context);
+        if (typeof node.index === 'string') names.add(node.index);
+        break;
+    }
+  });
+
+  return names;
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function createLocator(code: string) {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Return the rune called by a callee (`$state`, `$derived.by`, ...) or null
+ */
+export function getRuneName(callee: Node | undefined): string | null {
+  if (!callee) return null;
+  if (callee.type === 'Identifier' && RUNES.has(callee.name)) return callee.name;
+  if (callee.type === 'MemberExpression' && callee.object?.type === 'Identifier' && RUNES.has(callee.object.name)) {
+    return `${callee.object.name}.${callee.property?.name ?? ''}`;
+  }
+  return null;
+}
+
+/**
+ * Check whether a `<script>` node declares `lang="ts"`
+ */
+export function isTypeScriptScript(script: Node | null | undefined): boolean {
+  return Boolean(script?.attributes?.some((attr: Node) =>
+    attr.name === 'lang' && Array.isArray(attr.value) && /^(ts|typescript)$/.test(attr.value[0]?.data)
+  ));
+}
@@ -0,0 +1,192 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { getConfigDirectory } from './config.js';
+
+/**
+ * Synonym groups used to expand search queries
+ *
+ * The bundled dictionary lives in `data/synonyms.json`; users can add terms in
+ * `synonyms.json` inside the config directory. Both files share one format:
+ *
+ *   { "version": 1, "groups": [{ "term": "$state", "synonyms": ["reactive state"] }] }
+ *
+ * Knowledge packs can contribute groups too. A pack or user group whose term
+ * already exists extends that group.
+ */
+
+export const SYNONYMS_FILE_NAME = 'synonyms.json';
+
+export type SynonymSource = 'bundled' | 'pack' | 'user';
+
+export interface SynonymGroup {
+  term: string;
+  synonyms: string[];
+  source: SynonymSource;
+}
+
+export interface SynonymFile {
+  version: number;
+  groups: { term: string; synonyms: string[] }[];
+}
+
+export interface SynonymMatch {
+  group: SynonymGroup;
+  /** The group term or synonym found in the query */
+  matched: string;
+}
+
+export function getBundledSynonymsPath(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), '..', 'data', SYNONYMS_FILE_NAME);
+}
+
+export function getUserSynonymsPath(): string {
+  return join(getConfigDirectory(), SYNONYMS_FILE_NAME);
+}
+
+/**
+ * Check the shape of a list of synonym groups; `label` names the file in errors
+ */
+export function validateSynonymGroups(groups: unknown, label: string): SynonymFile['groups'] {
+  if (!Array.isArray(groups)) {
+    throw new Error(`Invalid synonyms file ${label}: expected a "groups" array`);
+  }
+
+  groups.forEach((group: any, index: number) => {
+    if (typeof group?.term !== 'string' || !group.term.trim()) {
+      throw new Error(`Invalid synonyms file ${label}: group ${index} has no "term"`);
+    }
+    if (!Array.isArray(group.synonyms) || group.synonyms.some((synonym: unknown) => typeof synonym !== 'string')) {
+      throw new Error(`Invalid synonyms file ${label}: group "${group.term}" needs a "synonyms" array of strings`);
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Read and validate a synonyms file
+ */
+export function readSynonymFile(filePath: string): SynonymFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid synonyms file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const groups = validateSynonymGroups(parsed?.groups, filePath);
+  return { version: typeof parsed.version === 'number' ? parsed.version : 1, groups };
+}
+
+/**
+ * Combine bundled, pack and user groups; later synonyms for an existing term extend that group
+ */
+export function mergeSynonymGroups(bundled: SynonymFile, user: SynonymFile | null, packGroups: SynonymFile['groups'] = []): SynonymGroup[] {
+  const groups = new Map<string, SynonymGroup>();
+
+  for (const { term, synonyms } of bundled.groups) {
+    groups.set(term.toLowerCase(), { term, synonyms: [...synonyms], source: 'bundled' });
+  }
+
+  const extend = (additions: SynonymFile['groups'], source: SynonymSource) => {
+    for (const { term, synonyms } of additions) {
+      const existing = groups.get(term.toLowerCase());
+      if (existing) {
+        const known = new Set(existing.synonyms.map(synonym => synonym.toLowerCase()));
+        existing.synonyms.push(...synonyms.filter(synonym => !known.has(synonym.toLowerCase())));
+        existing.source = source;
+      } else {
+        groups.set(term.toLowerCase(), { term, synonyms: [...synonyms], source });
+      }
+    }
+  };
+  extend(packGroups, 'pack');
+  extend(user?.groups ?? [], 'user');
+
+  return [...groups.values()];
+}
+
+/**
+ * Load the bundled dictionary merged with groups from enabled packs and the
+ * user's file, if there is one. An invalid user file is reported in `userError` and left out.
+ */
+export function loadSynonyms(packGroups: SynonymFile['groups'] = []): { groups: SynonymGroup[]; contents: string; userError?: string } {
+  const bundledPath = getBundledSynonymsPath();
+  const userPath = getUserSynonymsPath();
+  const bundled = readSynonymFile(bundledPath);
+
+  let user: SynonymFile | null = null;
+  let userContent = '';
+  let userError: string | undefined;
+  if (existsSync(userPath)) {
+    try {
+      userContent = readFileSync(userPath, 'utf-8');
+      user = readSynonymFile(userPath);
+    } catch (error) {
+      userError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return {
+    groups: mergeSynonymGroups(bundled, user, packGroups),
+    // Raw contents, so callers can tell when any source changed
+    contents: `${readFileSync(bundledPath, 'utf-8')}\n${JSON.stringify(packGroups)}\n${userContent}`,
+    userError,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex for a phrase as whole words, allowing a plural ending; edges that are
+ * punctuation (`bind:`, `{#each}`) match anywhere
+ */
+function phrasePattern(phrase: string): RegExp {
+  const before = /^[\w$]/.test(phrase) ? '(?<![\\w$])' : '';
+  const after = /\w$/.test(phrase) ? '(?:e?s)?(?!\\w)' : '';
+  return new RegExp(`${before}${escapeRegExp(phrase)}${after}`, 'i');
+}
+
+/**
+ * Groups whose term or one of whose synonyms appears in the query.
+ * A bare word also matches the rune of the same name (`effect` → `$effect`).
+ */
+export function findSynonymGroups(query: string, groups: SynonymGroup[]): SynonymMatch[] {
+  const matches: SynonymMatch[] = [];
+
+  for (const group of groups) {
+    const candidates = [group.term, ...group.synonyms];
+    if (group.term.startsWith('$')) candidates.push(group.term.slice(1));
+
+    // Longest first, so `derived state` wins over `derived`
+    const matched = candidates
+      .filter(candidate => candidate.trim())
+      .sort((a, b) => b.length - a.length)
+      .find(candidate => phrasePattern(candidate).test(query));
+    if (matched) matches.push({ group, matched });
+  }
+
+  return matches;
+}
+
+/**
+ * The query itself, every synonym of the groups it mentions, and the query
+ * with each matched phrase swapped for each alternative
+ */
+export function expandWithSynonyms(query: string, matches: SynonymMatch[]): string[] {
+  const expanded = new Set([query]);
+
+  for (const { group, matched } of matches) {
+    const alternatives = [group.term, ...group.synonyms].filter(alternative => alternative.toLowerCase() !== matched.toLowerCase());
+    const pattern = phrasePattern(matched);
+    for (const alternative of alternatives) {
+      expanded.add(alternative);
+      expanded.add(query.replace(pattern, () => alternative));
+    }
+  }
+
+  return [...expanded];
+}